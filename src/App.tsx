@@ -1,8 +1,21 @@
 import { useState, useRef } from 'react'
-import { WheelSelect, type WheelSelectRef } from './components'
+import {
+  WheelSelect,
+  WheelSelectGroup,
+  DateWheelPicker,
+  TimeWheelPicker,
+  NumberWheel,
+  createHapticFeedback,
+  createAudioFeedback,
+  type WheelSelectRef,
+} from './components'
 import './components/WheelSelect.css'
 
 // Example option sets
+const kilograms = new Intl.NumberFormat('en', { style: 'unit', unit: 'kilogram' })
+
+const tickFeedback = [createHapticFeedback(), createAudioFeedback({ volume: 0.08 })]
+
 const actionOptions = [
   { value: 'cook', label: 'cook' },
   { value: 'ship', label: 'ship' },
@@ -47,6 +60,61 @@ const colorOptions = [
   { value: 'pink', label: 'Pink' },
 ]
 
+const produceOptions = [
+  { value: 'apple', label: 'Apple', group: 'Fruits' },
+  { value: 'banana', label: 'Banana', group: 'Fruits' },
+  { value: 'cherry', label: 'Cherry', group: 'Fruits' },
+  { value: 'mango', label: 'Mango', group: 'Fruits' },
+  { value: 'carrot', label: 'Carrot', group: 'Vegetables' },
+  { value: 'leek', label: 'Leek', group: 'Vegetables' },
+  { value: 'pepper', label: 'Pepper', group: 'Vegetables' },
+  { value: 'spinach', label: 'Spinach', group: 'Vegetables' },
+  { value: 'basil', label: 'Basil', group: 'Herbs' },
+  { value: 'mint', label: 'Mint', group: 'Herbs' },
+  { value: 'thyme', label: 'Thyme', group: 'Herbs' },
+]
+
+const hourOptions = Array.from({ length: 12 }, (_, i) => {
+  const hour = String(i + 1).padStart(2, '0')
+  return { value: hour, label: hour }
+})
+
+const minuteOptions = Array.from({ length: 12 }, (_, i) => {
+  const minute = String(i * 5).padStart(2, '0')
+  return { value: minute, label: minute }
+})
+
+const periodOptions = [
+  { value: 'AM', label: 'AM' },
+  { value: 'PM', label: 'PM' },
+]
+
+const today = new Date()
+
+const timeZoneOptions = Intl.supportedValuesOf('timeZone').map(zone => ({
+  value: zone,
+  label: zone.replace(/_/g, ' '),
+}))
+
+// Simulated paginated API over the time zone list
+const PAGE_SIZE = 30
+
+const fetchTimeZones = (query: string, cursor: string | number | null, signal: AbortSignal) =>
+  new Promise<{ options: typeof timeZoneOptions; nextCursor: number | null }>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      const matches = timeZoneOptions.filter(o => o.label.toLowerCase().includes(query.toLowerCase()))
+      const start = Number(cursor ?? 0)
+      resolve({
+        options: matches.slice(start, start + PAGE_SIZE),
+        nextCursor: start + PAGE_SIZE < matches.length ? start + PAGE_SIZE : null,
+      })
+    }, 600)
+    signal.addEventListener('abort', () => {
+      clearTimeout(timeout)
+      reject(signal.reason)
+    })
+  })
+
 function App() {
   const [action, setAction] = useState('create')
   const [fruit, setFruit] = useState('mango')
@@ -55,6 +123,19 @@ function App() {
   const [color, setColor] = useState('blue')
   const [controlled, setControlled] = useState('apple')
   const controlledRef = useRef<WheelSelectRef>(null)
+  const [lastOpenChange, setLastOpenChange] = useState<string | null>(null)
+  const [hour, setHour] = useState('09')
+  const [minute, setMinute] = useState('30')
+  const [period, setPeriod] = useState('AM')
+  const [date, setDate] = useState<Date | null>(null)
+  const [meetingTime, setMeetingTime] = useState('14:30')
+  const [timeZone, setTimeZone] = useState(() => Intl.DateTimeFormat().resolvedOptions().timeZone)
+  const [remoteTimeZone, setRemoteTimeZone] = useState('Europe/Sofia')
+  const [produce, setProduce] = useState('carrot')
+  const [submitted, setSubmitted] = useState<string | null>(null)
+  const [inlineColor, setInlineColor] = useState('green')
+  const [sheetFruit, setSheetFruit] = useState('banana')
+  const [weight, setWeight] = useState<number | null>(72.5)
 
   return (
     <div className="app">
@@ -175,7 +256,7 @@ function App() {
         {/* Example 6: Controlled with Ref */}
         <section className="example-section">
           <h2>Programmatic Control</h2>
-          <p className="example-description">Control the picker imperatively using refs.</p>
+          <p className="example-description">Control the picker imperatively using refs, and see what opened or closed it.</p>
           <div className="example-card">
             <p className="demo-text">
               Value:{' '}
@@ -184,9 +265,11 @@ function App() {
                 options={fruitOptions}
                 value={controlled}
                 onChange={setControlled}
+                onOpenChange={(open, reason) => setLastOpenChange(`${open ? 'Opened' : 'Closed'} by ${reason}`)}
                 theme={{ colorScheme: 'dark' }}
               />
             </p>
+            {lastOpenChange && <p className="demo-text">{lastOpenChange}</p>}
             <div className="button-row">
               <button onClick={() => controlledRef.current?.open()}>Open</button>
               <button onClick={() => controlledRef.current?.close()}>Close</button>
@@ -196,6 +279,200 @@ function App() {
           </div>
         </section>
 
+        {/* Example 7: Multi-Column Group */}
+        <section className="example-section">
+          <h2>Multi-Column Groups</h2>
+          <p className="example-description">Several wheels side-by-side in a single picker.</p>
+          <div className="example-card">
+            <p className="demo-text">
+              Alarm at{' '}
+              <WheelSelectGroup
+                separator=":"
+                columns={[
+                  { key: 'hour', options: hourOptions, value: hour, onChange: setHour, label: 'Hour' },
+                  { key: 'minute', options: minuteOptions, value: minute, onChange: setMinute, label: 'Minute' },
+                  { key: 'period', options: periodOptions, value: period, onChange: setPeriod, label: 'AM/PM' },
+                ]}
+                formatLabel={([h, m, p]) => `${h}:${m} ${p}`}
+                theme={{ colorScheme: 'dark' }}
+              />
+            </p>
+          </div>
+        </section>
+
+        {/* Example 8: Date & Time */}
+        <section className="example-section">
+          <h2>Date &amp; Time Pickers</h2>
+          <p className="example-description">Locale-aware date and time wheels with bounds.</p>
+          <div className="example-card">
+            <p className="demo-text">
+              Book for{' '}
+              <DateWheelPicker
+                value={date}
+                onChange={setDate}
+                min={today}
+                showWeekday
+                theme={{ colorScheme: 'dark' }}
+              />
+              {' '}at{' '}
+              <TimeWheelPicker
+                value={meetingTime}
+                onChange={(_, iso) => setMeetingTime(iso)}
+                minuteStep={15}
+                min="08:00"
+                max="18:00"
+                theme={{ colorScheme: 'dark' }}
+              />
+            </p>
+          </div>
+        </section>
+
+        {/* Example 9: Searchable */}
+        <section className="example-section">
+          <h2>Searchable</h2>
+          <p className="example-description">Filter long lists by typing - try "nyk" or "sao".</p>
+          <div className="example-card">
+            <p className="demo-text">
+              Show times in{' '}
+              <WheelSelect
+                searchable
+                options={timeZoneOptions}
+                value={timeZone}
+                onChange={setTimeZone}
+                searchPlaceholder="Search time zones"
+                theme={{ colorScheme: 'dark' }}
+              />
+            </p>
+          </div>
+        </section>
+
+        {/* Example 10: Async Options */}
+        <section className="example-section">
+          <h2>Async Options</h2>
+          <p className="example-description">Options loaded page by page from a (simulated) API.</p>
+          <div className="example-card">
+            <p className="demo-text">
+              Server region{' '}
+              <WheelSelect
+                searchable
+                loadOptions={fetchTimeZones}
+                getOptionLabel={zone => zone.replace(/_/g, ' ')}
+                value={remoteTimeZone}
+                onChange={setRemoteTimeZone}
+                theme={{ colorScheme: 'dark' }}
+              />
+            </p>
+          </div>
+        </section>
+
+        {/* Example 11: Grouped Options */}
+        <section className="example-section">
+          <h2>Grouped Options</h2>
+          <p className="example-description">Section headers stay pinned while scrolling through their group.</p>
+          <div className="example-card">
+            <p className="demo-text">
+              Add{' '}
+              <WheelSelect
+                options={produceOptions}
+                value={produce}
+                onChange={setProduce}
+                theme={{ colorScheme: 'dark' }}
+              />
+              {' '}to the basket
+            </p>
+          </div>
+        </section>
+
+        {/* Example 12: Uncontrolled Form */}
+        <section className="example-section">
+          <h2>Uncontrolled Forms</h2>
+          <p className="example-description">No state needed - the form submits, validates and resets the value.</p>
+          <div className="example-card">
+            <form
+              onSubmit={e => {
+                e.preventDefault()
+                setSubmitted(String(new FormData(e.currentTarget).get('plan')))
+              }}
+              onReset={() => setSubmitted(null)}
+            >
+              <p className="demo-text">
+                Plan:{' '}
+                <WheelSelect
+                  name="plan"
+                  options={planOptions}
+                  defaultValue="pro"
+                  required
+                  validate={plan => (plan === 'free' ? 'Pick a paid plan to continue' : null)}
+                  theme={{ colorScheme: 'dark' }}
+                />
+              </p>
+              <div className="button-row">
+                <button type="submit">Submit</button>
+                <button type="reset">Reset</button>
+              </div>
+              {submitted !== null && <p className="example-description">Submitted: {submitted}</p>}
+            </form>
+          </div>
+        </section>
+
+        {/* Example 13: Inline Wheel */}
+        <section className="example-section">
+          <h2>Inline Wheel</h2>
+          <p className="example-description">Embedded in place - no trigger or backdrop, settles straight to a value. Drag it or step one option per wheel notch, with a click and a buzz as each color passes.</p>
+          <div className="example-card">
+            <WheelSelect
+              variant="inline"
+              options={colorOptions}
+              value={inlineColor}
+              onChange={setInlineColor}
+              behavior={{ commitOn: 'settle', wheelStep: 'option', feedback: tickFeedback }}
+              a11y={{ pickerLabel: 'Accent color' }}
+              theme={{ colorScheme: 'dark' }}
+            />
+            <p className="example-description">Accent color: {inlineColor}</p>
+          </div>
+        </section>
+
+        {/* Example 14: Bottom Sheet */}
+        <section className="example-section">
+          <h2>Bottom Sheet</h2>
+          <p className="example-description">Slides up from the bottom with Cancel and Done - drag the header down to dismiss.</p>
+          <div className="example-card">
+            <p className="demo-text">
+              Pack a{' '}
+              <WheelSelect
+                options={fruitOptions}
+                value={sheetFruit}
+                onChange={setSheetFruit}
+                behavior={{ presentation: 'sheet' }}
+                theme={{ colorScheme: 'dark' }}
+              />
+              {' '}for lunch
+            </p>
+          </div>
+        </section>
+
+        {/* Example 15: Number Wheel */}
+        <section className="example-section">
+          <h2>Number Wheel</h2>
+          <p className="example-description">Numeric ranges without an options array - 341 weights in half-kilogram steps. Page Up / Page Down move a wheel at a time, and j / k step like arrows.</p>
+          <div className="example-card">
+            <p className="demo-text">
+              I weigh{' '}
+              <NumberWheel
+                value={weight}
+                onChange={setWeight}
+                min={30}
+                max={200}
+                step={0.5}
+                formatValue={kilograms}
+                theme={{ colorScheme: 'dark' }}
+                behavior={{ keymap: { next: ['ArrowDown', 'j'], previous: ['ArrowUp', 'k'] } }}
+              />
+            </p>
+          </div>
+        </section>
+
         <footer className="demo-footer">
           <p>
             <a href="https://github.com/vasilrashkov/react-wheel-select" target="_blank" rel="noopener noreferrer">
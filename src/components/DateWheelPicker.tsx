@@ -0,0 +1,296 @@
+import {
+  useState,
+  useCallback,
+  useMemo,
+  forwardRef,
+} from 'react'
+import type { WheelSelectOption } from './WheelSelect'
+import {
+  WheelSelectGroup,
+  type WheelSelectColumn,
+  type WheelSelectGroupProps,
+  type WheelSelectGroupRef,
+} from './WheelSelectGroup'
+import {
+  type DateLike,
+  pad,
+  parseDate,
+  daysInMonth,
+  toIsoDate,
+  startOfDay,
+} from './dateUtils'
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+/**
+ * Date wheel picker props
+ */
+export interface DateWheelPickerProps
+  extends Omit<WheelSelectGroupProps, 'columns' | 'separator' | 'formatLabel'> {
+  /** Currently selected date (Date or ISO string) */
+  value: DateLike | null
+  /** Change handler, receives the local date and its YYYY-MM-DD form */
+  onChange: (date: Date, iso: string) => void
+  /** Earliest selectable date */
+  min?: DateLike
+  /** Latest selectable date */
+  max?: DateLike
+  /** Locale for month/weekday names and column order (default: browser locale) */
+  locale?: string
+  /** Month label style (default: 'long') */
+  monthFormat?: 'long' | 'short' | 'numeric' | '2-digit'
+  /** Prefix day labels with the weekday name (default: false) */
+  showWeekday?: boolean
+  /** Year range when min/max are not set (default: 100 years back to 10 years ahead) */
+  yearRange?: [number, number]
+  /** Name of a hidden input submitting the YYYY-MM-DD value */
+  name?: string
+  /** Format the trigger label (default: locale medium date) */
+  formatLabel?: (date: Date) => string
+}
+
+type DateField = 'year' | 'month' | 'day'
+
+interface DateParts {
+  year: number
+  month: number
+  day: number
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+const toParts = (date: Date): DateParts => ({
+  year: date.getFullYear(),
+  month: date.getMonth(),
+  day: date.getDate(),
+})
+
+const clampDate = (date: Date, min: Date | null, max: Date | null): Date => {
+  if (min && date < min) return min
+  if (max && date > max) return max
+  return date
+}
+
+/**
+ * Determine the locale's order of the day, month and year fields
+ */
+const getFieldOrder = (locale: string | undefined, monthFormat: string): DateField[] => {
+  const formatter = new Intl.DateTimeFormat(locale, {
+    year: 'numeric',
+    month: monthFormat as Intl.DateTimeFormatOptions['month'],
+    day: 'numeric',
+  })
+  const order = formatter
+    .formatToParts(new Date(2000, 10, 22))
+    .map(part => part.type)
+    .filter((type): type is DateField => type === 'year' || type === 'month' || type === 'day')
+  return order.length === 3 ? order : ['month', 'day', 'year']
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+function DateWheelPickerInner(
+  props: DateWheelPickerProps,
+  ref: React.ForwardedRef<WheelSelectGroupRef>
+) {
+  const {
+    value,
+    onChange,
+    min,
+    max,
+    locale,
+    monthFormat = 'long',
+    showWeekday = false,
+    yearRange,
+    name,
+    placeholder = 'Select a date',
+    formatLabel,
+    a11y,
+    ...groupProps
+  } = props
+
+  const date = useMemo(() => {
+    const parsed = parseDate(value)
+    return parsed && startOfDay(parsed)
+  }, [value])
+  const minDate = useMemo(() => {
+    const parsed = parseDate(min)
+    return parsed && startOfDay(parsed)
+  }, [min])
+  const maxDate = useMemo(() => {
+    const parsed = parseDate(max)
+    return parsed && startOfDay(parsed)
+  }, [max])
+
+  // Parts shown by the wheels - today (within bounds) when there is no value
+  const parts = useMemo(
+    () => toParts(date ?? clampDate(startOfDay(new Date()), minDate, maxDate)),
+    [date, minDate, maxDate]
+  )
+
+  // Parts highlighted in the open picker - the month and day options follow
+  // them, so a month or day valid in the highlighted year can be picked
+  const [activeParts, setActiveParts] = useState<Partial<DateParts> | null>(null)
+  const shownParts = useMemo(() => ({ ...parts, ...activeParts }), [parts, activeParts])
+
+  const highlightField = useCallback((field: DateField, fieldValue: number) => {
+    setActiveParts(prev => (prev?.[field] === fieldValue ? prev : { ...prev, [field]: fieldValue }))
+  }, [])
+
+  // Commit a date built from all fields, clamping the day and the bounds once
+  const commitParts = useCallback((next: DateParts) => {
+    const day = Math.min(next.day, daysInMonth(next.year, next.month))
+    const result = clampDate(new Date(next.year, next.month, day), minDate, maxDate)
+    onChange(result, toIsoDate(result))
+  }, [onChange, minDate, maxDate])
+
+  // Clicking an option commits its field together with the highlighted others,
+  // the date the wheels show
+  const commitField = useCallback((field: DateField, fieldValue: number) => {
+    commitParts({ ...shownParts, [field]: fieldValue })
+  }, [commitParts, shownParts])
+
+  const isOutOfRange = useCallback((from: Date, to: Date) =>
+    Boolean((minDate && to < minDate) || (maxDate && from > maxDate)),
+  [minDate, maxDate])
+
+  // Locale-aware formatters
+  const formatters = useMemo(() => ({
+    year: new Intl.DateTimeFormat(locale, { year: 'numeric' }),
+    month: new Intl.DateTimeFormat(locale, { month: monthFormat }),
+    day: new Intl.DateTimeFormat(locale, { day: 'numeric' }),
+    weekday: new Intl.DateTimeFormat(locale, { weekday: 'short' }),
+    label: new Intl.DateTimeFormat(locale, showWeekday
+      ? { weekday: 'short', year: 'numeric', month: 'short', day: 'numeric' }
+      : { dateStyle: 'medium' }),
+  }), [locale, monthFormat, showWeekday])
+
+  const fieldOrder = useMemo(
+    () => getFieldOrder(locale, monthFormat),
+    [locale, monthFormat]
+  )
+
+  // Year options
+  const yearOptions = useMemo((): WheelSelectOption[] => {
+    const currentYear = new Date().getFullYear()
+    const from = minDate?.getFullYear() ?? yearRange?.[0] ?? currentYear - 100
+    const to = maxDate?.getFullYear() ?? yearRange?.[1] ?? currentYear + 10
+    const options: WheelSelectOption[] = []
+    for (let year = from; year <= to; year++) {
+      options.push({
+        value: String(year),
+        label: formatters.year.format(new Date(year, 0, 1)),
+      })
+    }
+    return options
+  }, [minDate, maxDate, yearRange, formatters])
+
+  // Month options of the highlighted year, disabled when the whole month is out of range
+  const monthOptions = useMemo((): WheelSelectOption[] =>
+    Array.from({ length: 12 }, (_, month) => ({
+      value: pad(month + 1),
+      label: formatters.month.format(new Date(shownParts.year, month, 1)),
+      disabled: isOutOfRange(
+        new Date(shownParts.year, month, 1),
+        new Date(shownParts.year, month, daysInMonth(shownParts.year, month))
+      ),
+    })),
+  [shownParts.year, formatters, isOutOfRange])
+
+  // Day options for the highlighted month, disabled when out of range
+  const dayOptions = useMemo((): WheelSelectOption[] =>
+    Array.from({ length: daysInMonth(shownParts.year, shownParts.month) }, (_, i) => {
+      const day = new Date(shownParts.year, shownParts.month, i + 1)
+      const dayLabel = formatters.day.format(day)
+      return {
+        value: pad(i + 1),
+        label: showWeekday ? `${formatters.weekday.format(day)} ${dayLabel}` : dayLabel,
+        disabled: isOutOfRange(day, day),
+      }
+    }),
+  [shownParts.year, shownParts.month, formatters, showWeekday, isOutOfRange])
+
+  const columns = useMemo((): WheelSelectColumn[] => {
+    const byField: Record<DateField, WheelSelectColumn> = {
+      year: {
+        key: 'year',
+        options: yearOptions,
+        value: date ? String(parts.year) : '',
+        fallbackValue: String(parts.year),
+        onChange: v => commitField('year', Number(v)),
+        onActiveChange: v => highlightField('year', Number(v)),
+        label: 'Year',
+      },
+      month: {
+        key: 'month',
+        options: monthOptions,
+        value: date ? pad(parts.month + 1) : '',
+        fallbackValue: pad(parts.month + 1),
+        onChange: v => commitField('month', Number(v) - 1),
+        onActiveChange: v => highlightField('month', Number(v) - 1),
+        label: 'Month',
+      },
+      day: {
+        key: 'day',
+        options: dayOptions,
+        value: date ? pad(parts.day) : '',
+        fallbackValue: pad(parts.day),
+        onChange: v => commitField('day', Number(v)),
+        onActiveChange: v => highlightField('day', Number(v)),
+        label: 'Day',
+      },
+    }
+    return fieldOrder.map(field => byField[field])
+  }, [fieldOrder, yearOptions, monthOptions, dayOptions, date, parts, commitField, highlightField])
+
+  // Enter commits the highlighted fields as one date
+  const commitAll = useCallback((values: string[]) => {
+    const next = { ...parts }
+    fieldOrder.forEach((field, index) => {
+      // Columns without a value keep the shown part
+      if (!values[index]) return
+      const fieldValue = Number(values[index])
+      next[field] = field === 'month' ? fieldValue - 1 : fieldValue
+    })
+    commitParts(next)
+  }, [parts, fieldOrder, commitParts])
+
+
+  const triggerLabel = date
+    ? (formatLabel ? formatLabel(date) : formatters.label.format(date))
+    : placeholder
+
+  return (
+    <>
+      <WheelSelectGroup
+        ref={ref}
+        {...groupProps}
+        a11y={{ pickerLabel: 'Select a date', ...a11y }}
+        placeholder={placeholder}
+        columns={columns}
+        onCommit={commitAll}
+        formatLabel={() => triggerLabel}
+        callbacks={{
+          ...groupProps.callbacks,
+          onClose: () => {
+            // The next opening highlights the committed date again
+            setActiveParts(null)
+            groupProps.callbacks?.onClose?.()
+          },
+        }}
+      />
+      {name && <input type="hidden" name={name} value={date ? toIsoDate(date) : ''} />}
+    </>
+  )
+}
+
+// Forward ref
+export const DateWheelPicker = forwardRef(DateWheelPickerInner)
+
+export default DateWheelPicker
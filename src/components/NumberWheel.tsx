@@ -0,0 +1,160 @@
+import {
+  useCallback,
+  useMemo,
+  useRef,
+  forwardRef,
+} from 'react'
+import {
+  WheelSelect,
+  type WheelSelectBaseProps,
+  type WheelSelectRef,
+} from './WheelSelect'
+import { createLazyOptions } from './shared'
+import { clamp } from './dateUtils'
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+/**
+ * Number wheel props
+ */
+export interface NumberWheelProps
+  extends Omit<
+    WheelSelectBaseProps,
+    'options' | 'loadOptions' | 'getOptionLabel' | 'resolveValue' | 'loadingText' | 'errorText' | 'retryText'
+  > {
+  /** Currently selected number (null for none) - omit to let the component own its state */
+  value?: number | null
+  /** Initial number in uncontrolled mode, restored when the parent form resets */
+  defaultValue?: number
+  /** Change handler, receives the selected number */
+  onChange?: (value: number) => void
+  /** Smallest number of the range */
+  min: number
+  /** Largest number of the range - the last step at or below it is included */
+  max: number
+  /** Distance between neighbouring numbers (default: 1) */
+  step?: number
+  /** Decimal places of the numbers (default: the decimals of `min` and `step`) */
+  precision?: number
+  /**
+   * Label of a number - a function, or an Intl.NumberFormat for units,
+   * percentages and currencies (default: locale number with `precision` decimals)
+   */
+  formatValue?: ((value: number) => string) | Intl.NumberFormat
+  /** Locale of the default label format (default: browser locale) */
+  locale?: string
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Number of decimal places written in a number
+ */
+const decimalsOf = (n: number): number => {
+  const [, fraction = ''] = String(n).split('.')
+  return fraction.length
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+function NumberWheelInner(
+  props: NumberWheelProps,
+  ref: React.ForwardedRef<WheelSelectRef>
+) {
+  const {
+    value,
+    defaultValue,
+    onChange,
+    min,
+    max,
+    step: stepProp = 1,
+    precision: precisionProp,
+    formatValue,
+    locale,
+    a11y,
+    ...selectProps
+  } = props
+
+  const step = stepProp > 0 ? stepProp : 1
+  const precision = clamp(Math.floor(precisionProp ?? Math.max(decimalsOf(min), decimalsOf(step))), 0, 100)
+
+  // Size of the range - the tolerance keeps float steps like 0.1 from
+  // dropping the last number
+  const count = Number.isFinite(min) && Number.isFinite(max) && max >= min
+    ? Math.floor((max - min) / step + 1e-9) + 1
+    : 0
+
+  const valueAt = useCallback(
+    (index: number) => Number((min + index * step).toFixed(precision)),
+    [min, step, precision]
+  )
+
+  // A format function is read through a ref, so an inline `formatValue` does
+  // not rebuild the option list on every render. Labels are read while
+  // rendering, so the ref is updated during render too.
+  const formatFunctionRef = useRef<((value: number) => string) | null>(null)
+  formatFunctionRef.current = typeof formatValue === 'function' ? formatValue : null
+  const isFormatFunction = formatFunctionRef.current !== null
+  const formatter = typeof formatValue === 'function' ? undefined : formatValue
+
+  const formatLabel = useMemo(() => {
+    if (isFormatFunction) return (n: number) => formatFunctionRef.current?.(n) ?? String(n)
+    const numberFormat = formatter ?? new Intl.NumberFormat(locale, {
+      minimumFractionDigits: precision,
+      maximumFractionDigits: precision,
+    })
+    return (n: number) => numberFormat.format(n)
+  }, [isFormatFunction, formatter, locale, precision])
+
+  // Options are created when the wheel reads them, and labels only when
+  // they are shown
+  const options = useMemo(() => createLazyOptions<string>(
+    count,
+    index => {
+      const n = valueAt(index)
+      return {
+        value: n.toFixed(precision),
+        get label() {
+          return formatLabel(n)
+        },
+      }
+    },
+    key => {
+      const n = Number(key)
+      if (key === '' || !Number.isFinite(n)) return -1
+      const index = Math.round((n - min) / step)
+      return index >= 0 && index < count && valueAt(index).toFixed(precision) === key ? index : -1
+    }
+  ), [count, valueAt, precision, min, step, formatLabel])
+
+  // Incoming numbers outside the range are clamped to it and numbers between
+  // steps snap to the nearest one - the wheel shows that number, and onChange
+  // is only called once one is picked
+  const toKey = (n: number | null | undefined): string | undefined => {
+    if (n === null || n === undefined || !Number.isFinite(n) || count === 0) return undefined
+    return valueAt(clamp(Math.round((n - min) / step), 0, count - 1)).toFixed(precision)
+  }
+
+  return (
+    <WheelSelect
+      ref={ref}
+      {...selectProps}
+      a11y={{ pickerLabel: 'Select a number', ...a11y }}
+      options={options}
+      value={value === undefined ? undefined : toKey(value) ?? ''}
+      defaultValue={toKey(defaultValue)}
+      onChange={key => onChange?.(Number(key))}
+    />
+  )
+}
+
+// Forward ref
+export const NumberWheel = forwardRef(NumberWheelInner)
+
+export default NumberWheel
@@ -0,0 +1,328 @@
+import {
+  useState,
+  useCallback,
+  useMemo,
+  forwardRef,
+} from 'react'
+import type { WheelSelectOption } from './WheelSelect'
+import {
+  WheelSelectGroup,
+  type WheelSelectColumn,
+  type WheelSelectGroupProps,
+  type WheelSelectGroupRef,
+} from './WheelSelectGroup'
+import {
+  type DateLike,
+  pad,
+  parseDate,
+  toIsoTime,
+  clamp,
+} from './dateUtils'
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+/**
+ * Time wheel picker props
+ */
+export interface TimeWheelPickerProps
+  extends Omit<WheelSelectGroupProps, 'columns' | 'separator' | 'formatLabel'> {
+  /** Currently selected time (Date, ISO string or HH:mm) */
+  value: DateLike | null
+  /** Change handler, receives the time as a Date and its HH:mm form */
+  onChange: (time: Date, iso: string) => void
+  /** Earliest selectable time (Date or HH:mm) */
+  min?: DateLike
+  /** Latest selectable time (Date or HH:mm) */
+  max?: DateLike
+  /** Locale for the AM/PM labels and default hour cycle (default: browser locale) */
+  locale?: string
+  /** 12 or 24-hour mode (default: derived from locale) */
+  hourCycle?: 12 | 24
+  /** Minute increment (default: 1) */
+  minuteStep?: number
+  /** Name of a hidden input submitting the HH:mm value */
+  name?: string
+  /** Format the trigger label (default: locale short time) */
+  formatLabel?: (time: Date) => string
+}
+
+type TimeField = 'hour' | 'minute' | 'period'
+
+interface TimeParts {
+  hour: number
+  minute: number
+}
+
+const MINUTES_PER_DAY = 24 * 60
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Parse a time value - HH:mm strings are interpreted as a time today
+ */
+const parseTime = (value: DateLike | null | undefined): Date | null => {
+  if (typeof value === 'string') {
+    const match = /^(\d{1,2}):(\d{2})(?::\d{2})?$/.exec(value)
+    if (match) {
+      const time = new Date()
+      time.setHours(Number(match[1]), Number(match[2]), 0, 0)
+      return time
+    }
+  }
+  return parseDate(value)
+}
+
+const toMinutes = (date: Date): number => date.getHours() * 60 + date.getMinutes()
+
+const getDefaultHourCycle = (locale: string | undefined): 12 | 24 => {
+  const { hourCycle } = new Intl.DateTimeFormat(locale, { hour: 'numeric' }).resolvedOptions()
+  return hourCycle === 'h11' || hourCycle === 'h12' ? 12 : 24
+}
+
+/**
+ * Localized AM/PM labels and whether the period precedes the hour
+ */
+const getPeriodInfo = (locale: string | undefined) => {
+  const formatter = new Intl.DateTimeFormat(locale, { hour: 'numeric', hour12: true })
+  const periodOf = (date: Date) =>
+    formatter.formatToParts(date).find(part => part.type === 'dayPeriod')?.value
+  const types = formatter.formatToParts(new Date(2000, 0, 1, 1)).map(part => part.type)
+
+  return {
+    am: periodOf(new Date(2000, 0, 1, 1)) ?? 'AM',
+    pm: periodOf(new Date(2000, 0, 1, 13)) ?? 'PM',
+    periodFirst: types.indexOf('dayPeriod') !== -1 && types.indexOf('dayPeriod') < types.indexOf('hour'),
+  }
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+function TimeWheelPickerInner(
+  props: TimeWheelPickerProps,
+  ref: React.ForwardedRef<WheelSelectGroupRef>
+) {
+  const {
+    value,
+    onChange,
+    min,
+    max,
+    locale,
+    hourCycle: hourCycleProp,
+    minuteStep = 1,
+    name,
+    placeholder = 'Select a time',
+    formatLabel,
+    a11y,
+    ...groupProps
+  } = props
+
+  const hourCycle = hourCycleProp ?? getDefaultHourCycle(locale)
+  const step = clamp(Math.floor(minuteStep), 1, 60)
+
+  const time = useMemo(() => parseTime(value), [value])
+  const minMinutes = useMemo(() => {
+    const parsed = parseTime(min)
+    return parsed ? toMinutes(parsed) : 0
+  }, [min])
+  const maxMinutes = useMemo(() => {
+    const parsed = parseTime(max)
+    return parsed ? toMinutes(parsed) : MINUTES_PER_DAY - 1
+  }, [max])
+
+  // Parts shown by the wheels - now (within bounds) when there is no value.
+  // Minutes between steps are shown at the previous step.
+  const parts = useMemo((): TimeParts => {
+    const minutes = time
+      ? toMinutes(time)
+      : clamp(toMinutes(new Date()), minMinutes, maxMinutes)
+    return {
+      hour: Math.floor(minutes / 60),
+      minute: Math.floor((minutes % 60) / step) * step,
+    }
+  }, [time, minMinutes, maxMinutes, step])
+
+  // Apply a column value to parts - a 12-hour hour keeps the period, and a
+  // period keeps the hour, so columns apply in any order
+  const applyField = useCallback((base: TimeParts, field: TimeField, fieldValue: string): TimeParts => {
+    switch (field) {
+      case 'hour':
+        return {
+          ...base,
+          hour: hourCycle === 24 ? Number(fieldValue) : (Number(fieldValue) % 12) + (base.hour >= 12 ? 12 : 0),
+        }
+      case 'minute':
+        return { ...base, minute: Number(fieldValue) }
+      case 'period':
+        return { ...base, hour: (base.hour % 12) + (fieldValue === 'PM' ? 12 : 0) }
+    }
+  }, [hourCycle])
+
+  // Column values highlighted in the open picker - the hour and minute
+  // options follow them, so options outside min/max stay disabled
+  const [activeValues, setActiveValues] = useState<Partial<Record<TimeField, string>> | null>(null)
+  const shownParts = useMemo(
+    () => (Object.entries(activeValues ?? {}) as [TimeField, string][])
+      .reduce((next, [field, fieldValue]) => applyField(next, field, fieldValue), parts),
+    [parts, activeValues, applyField]
+  )
+
+  const highlightField = useCallback((field: TimeField, fieldValue: string) => {
+    setActiveValues(prev => (prev?.[field] === fieldValue ? prev : { ...prev, [field]: fieldValue }))
+  }, [])
+
+  // Commit a change, keeping the date portion of the current value
+  const commitParts = useCallback((next: TimeParts) => {
+    const minutes = clamp(next.hour * 60 + next.minute, minMinutes, maxMinutes)
+    const result = time ? new Date(time.getTime()) : new Date()
+    result.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0)
+    onChange(result, toIsoTime(result))
+  }, [time, minMinutes, maxMinutes, onChange])
+
+  // Clicking an option commits its column together with the highlighted others
+  const commitField = useCallback((field: TimeField, fieldValue: string) => {
+    commitParts(applyField(shownParts, field, fieldValue))
+  }, [commitParts, applyField, shownParts])
+
+  const isOutOfRange = useCallback((from: number, to: number) =>
+    to < minMinutes || from > maxMinutes,
+  [minMinutes, maxMinutes])
+
+  const periodInfo = useMemo(() => getPeriodInfo(locale), [locale])
+  const isPm = parts.hour >= 12
+  const isShownPm = shownParts.hour >= 12
+
+  // Hour options - 12, 1..11 in 12-hour mode, 00..23 in 24-hour mode
+  const hourOptions = useMemo((): WheelSelectOption[] => {
+    if (hourCycle === 24) {
+      return Array.from({ length: 24 }, (_, hour) => ({
+        value: pad(hour),
+        label: pad(hour),
+        disabled: isOutOfRange(hour * 60, hour * 60 + 59),
+      }))
+    }
+    return Array.from({ length: 12 }, (_, i) => {
+      const hour = i === 0 ? 12 : i
+      const hour24 = i + (isShownPm ? 12 : 0)
+      return {
+        value: pad(hour),
+        label: String(hour),
+        disabled: isOutOfRange(hour24 * 60, hour24 * 60 + 59),
+      }
+    })
+  }, [hourCycle, isShownPm, isOutOfRange])
+
+  // Minute options for the highlighted hour
+  const minuteOptions = useMemo((): WheelSelectOption[] =>
+    Array.from({ length: Math.ceil(60 / step) }, (_, i) => {
+      const minute = i * step
+      const minutes = shownParts.hour * 60 + minute
+      return {
+        value: pad(minute),
+        label: pad(minute),
+        disabled: isOutOfRange(minutes, minutes),
+      }
+    }),
+  [step, shownParts.hour, isOutOfRange])
+
+  // AM/PM options
+  const periodOptions = useMemo((): WheelSelectOption[] => [
+    { value: 'AM', label: periodInfo.am, disabled: isOutOfRange(0, 12 * 60 - 1) },
+    { value: 'PM', label: periodInfo.pm, disabled: isOutOfRange(12 * 60, MINUTES_PER_DAY - 1) },
+  ], [periodInfo, isOutOfRange])
+
+  const fieldOrder = useMemo((): TimeField[] => (hourCycle === 24
+    ? ['hour', 'minute']
+    : periodInfo.periodFirst
+      ? ['period', 'hour', 'minute']
+      : ['hour', 'minute', 'period']
+  ), [hourCycle, periodInfo])
+
+  const columns = useMemo((): WheelSelectColumn[] => {
+    const hourValue = hourCycle === 24 ? pad(parts.hour) : pad(parts.hour % 12 === 0 ? 12 : parts.hour % 12)
+    const periodValue = isPm ? 'PM' : 'AM'
+
+    const byField: Record<TimeField, WheelSelectColumn> = {
+      hour: {
+        key: 'hour',
+        options: hourOptions,
+        value: time ? hourValue : '',
+        fallbackValue: hourValue,
+        onChange: v => commitField('hour', v),
+        onActiveChange: v => highlightField('hour', v),
+        label: 'Hour',
+      },
+      minute: {
+        key: 'minute',
+        options: minuteOptions,
+        value: time ? pad(parts.minute) : '',
+        fallbackValue: pad(parts.minute),
+        onChange: v => commitField('minute', v),
+        onActiveChange: v => highlightField('minute', v),
+        label: 'Minute',
+        separator: ':',
+      },
+      period: {
+        key: 'period',
+        options: periodOptions,
+        value: time ? periodValue : '',
+        fallbackValue: periodValue,
+        onChange: v => commitField('period', v),
+        onActiveChange: v => highlightField('period', v),
+        label: 'AM/PM',
+      },
+    }
+
+    return fieldOrder.map(field => byField[field])
+  }, [hourCycle, fieldOrder, hourOptions, minuteOptions, periodOptions, time, parts, isPm, commitField, highlightField])
+
+  // Enter commits the highlighted columns as one time
+  const commitAll = useCallback((values: string[]) => {
+    commitParts(fieldOrder.reduce(
+      // Columns without a value keep the shown part
+      (next, field, index) => (values[index] ? applyField(next, field, values[index]) : next),
+      parts
+    ))
+  }, [fieldOrder, applyField, parts, commitParts])
+
+  const labelFormatter = useMemo(
+    () => new Intl.DateTimeFormat(locale, { hour: 'numeric', minute: '2-digit', hour12: hourCycle === 12 }),
+    [locale, hourCycle]
+  )
+  const triggerLabel = time
+    ? (formatLabel ? formatLabel(time) : labelFormatter.format(time))
+    : placeholder
+
+  return (
+    <>
+      <WheelSelectGroup
+        ref={ref}
+        {...groupProps}
+        a11y={{ pickerLabel: 'Select a time', ...a11y }}
+        placeholder={placeholder}
+        columns={columns}
+        onCommit={commitAll}
+        formatLabel={() => triggerLabel}
+        callbacks={{
+          ...groupProps.callbacks,
+          onClose: () => {
+            // The next opening highlights the committed time again
+            setActiveValues(null)
+            groupProps.callbacks?.onClose?.()
+          },
+        }}
+      />
+      {name && <input type="hidden" name={name} value={time ? toIsoTime(time) : ''} />}
+    </>
+  )
+}
+
+// Forward ref
+export const TimeWheelPicker = forwardRef(TimeWheelPickerInner)
+
+export default TimeWheelPicker
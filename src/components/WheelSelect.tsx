@@ -1,17 +1,21 @@
 import {
-  useState,
-  useRef,
-  useEffect,
-  useCallback,
-  useMemo,
   forwardRef,
   useImperativeHandle,
   type KeyboardEvent,
-  type MouseEvent,
   type ReactNode,
   type CSSProperties,
 } from 'react'
 import { createPortal } from 'react-dom'
+import {
+  DefaultChevronIcon,
+  DefaultArrowIcon,
+  DefaultCheckIcon,
+  getColorSchemeClass,
+  groupAdjacent,
+  highlightMatches,
+} from './shared'
+import { useWheelSelect } from './useWheelSelect'
+import type { WheelSelectFeedback } from './feedback'
 
 // ============================================================================
 // Types & Interfaces
@@ -27,10 +31,41 @@ export interface WheelSelectOption<T extends string = string> {
   label: string
   /** Optional disabled state */
   disabled?: boolean
+  /**
+   * Group the option belongs to. A section header is shown where a group
+   * starts, so options of a group should be adjacent.
+   */
+  group?: string
   /** Optional custom data attached to the option */
   data?: Record<string, unknown>
 }
 
+/**
+ * Pagination cursor returned by `loadOptions`
+ */
+export type WheelSelectCursor = string | number
+
+/**
+ * A page of options returned by `loadOptions`
+ */
+export interface WheelSelectPage<T extends string = string> {
+  /** Options of this page, appended to the previously loaded ones */
+  options: WheelSelectOption<T>[]
+  /** Cursor of the next page - omit or pass null on the last page */
+  nextCursor?: WheelSelectCursor | null
+}
+
+/**
+ * Async option loader. Called with the search query, the cursor of the page
+ * to load (null for the first page) and a signal aborted when the request
+ * becomes stale.
+ */
+export type WheelSelectLoadOptions<T extends string = string> = (
+  query: string,
+  cursor: WheelSelectCursor | null,
+  signal: AbortSignal
+) => Promise<WheelSelectPage<T>>
+
 /**
  * Theme configuration for the wheel select
  */
@@ -51,6 +86,8 @@ export interface WheelSelectTheme {
     backdropBg?: string
     /** Focus ring color */
     focusRing?: string
+    /** Color of the error message and the invalid trigger */
+    error?: string
   }
   /** Border radius for pill shapes */
   borderRadius?: number | string
@@ -74,6 +111,17 @@ export interface WheelSelectTheme {
     /** Disable all animations */
     disabled?: boolean
   }
+  /** Wheel appearance: flat list or 3D cylinder like the native iOS picker (default: 'flat') */
+  appearance?: 'flat' | 'cylinder'
+  /** 3D cylinder settings, used when appearance is 'cylinder' */
+  cylinder?: {
+    /** How strongly the wheel curves, from 0 (flat) to 1 (outermost items turned edge-on) */
+    curvature?: number
+    /** Number of items visible on the front of the cylinder */
+    visibleItems?: number
+    /** Perspective distance in px */
+    perspective?: number
+  }
   /** Spacing settings */
   spacing?: {
     /** Gap between trigger text and icon */
@@ -101,6 +149,48 @@ export interface WheelSelectSizing {
   iconSize?: number
 }
 
+/**
+ * Where the picker opens: over the trigger with the center band aligned to
+ * it, below or above the trigger, or in the center of the viewport
+ */
+export type WheelSelectPlacement = 'overlay-trigger' | 'below' | 'above' | 'center'
+
+/**
+ * Keyboard actions of the open picker
+ */
+export type WheelSelectKeyAction =
+  | 'next'
+  | 'previous'
+  | 'first'
+  | 'last'
+  | 'pageUp'
+  | 'pageDown'
+  | 'commit'
+  | 'cancel'
+
+/**
+ * Keys bound to keyboard actions - `KeyboardEvent.key` values ('ArrowDown',
+ * 'j', 'Space'), optionally prefixed with modifiers ('Ctrl+', 'Alt+',
+ * 'Shift+', 'Meta+'). Actions left out keep their default keys and an empty
+ * list disables an action.
+ */
+export type WheelSelectKeymap = Partial<Record<WheelSelectKeyAction, string[]>>
+
+/**
+ * What opened or closed the picker: a click on the trigger (or its open
+ * keys), Escape, a click on the backdrop or a drag dismissing the sheet, a
+ * selection that closes the picker (or the sheet's Done), the sheet's
+ * Cancel, the field becoming disabled, or a call through the ref
+ */
+export type WheelSelectOpenChangeReason =
+  | 'trigger'
+  | 'escape'
+  | 'backdrop'
+  | 'select'
+  | 'cancel'
+  | 'disabled'
+  | 'programmatic'
+
 /**
  * Behavior configuration
  */
@@ -115,10 +205,74 @@ export interface WheelSelectBehavior {
   scrollDebounceMs?: number
   /** Enable keyboard navigation (default: true) */
   keyboardNavigation?: boolean
+  /**
+   * Remap keyboard actions, e.g. `{ next: ['ArrowDown', 'j'], previous: ['ArrowUp', 'k'] }`.
+   * Bound keys take precedence over type-ahead. WheelSelect only
+   * (default: arrows, Home / End, PageUp / PageDown, Enter / Space and Escape).
+   */
+  keymap?: WheelSelectKeymap
   /** Portal target element (default: document.body) */
   portalTarget?: HTMLElement | null
+  /**
+   * Picker placement (default: 'overlay-trigger'). The picker flips and
+   * shifts to stay on-screen and follows the trigger on resize and scroll.
+   */
+  placement?: WheelSelectPlacement
+  /** Minimum distance in px between the picker and the viewport edges (default: 8) */
+  collisionPadding?: number
+  /**
+   * Show the wheel in a floating 'popover', in a bottom 'sheet' with
+   * Cancel / Done actions, or pick the sheet on narrow viewports and coarse
+   * pointers ('auto'). WheelSelect only (default: 'popover').
+   */
+  presentation?: 'popover' | 'sheet' | 'auto'
+  /** Viewport width in px at or below which 'auto' presents a sheet (default: 640) */
+  sheetBreakpoint?: number
   /** Focus trigger after close (default: true) */
   focusTriggerOnClose?: boolean
+  /**
+   * When the value changes: on click / Enter only ('click'), or also when a
+   * user scroll settles, committing the option in the center band like a
+   * native iOS wheel ('settle'). Single selection only (default: 'click').
+   */
+  commitOn?: 'click' | 'settle'
+  /**
+   * Drag the wheel with a mouse or pen like a physical dial, gliding on with
+   * momentum and snapping to an option on release. Touch always scrolls
+   * natively (default: true). WheelSelect only.
+   */
+  dragToScroll?: boolean
+  /**
+   * Mouse wheel scrolling: the browser's native scroll distance ('native'),
+   * or exactly one option per notch ('option'). WheelSelect only (default: 'native').
+   */
+  wheelStep?: 'native' | 'option'
+  /**
+   * Windowed rendering for large lists: `true` always, `false` never, or a
+   * number to virtualize lists with more options than that (default: 100).
+   * Requires a numeric `sizing.optionHeight`.
+   */
+  virtualize?: boolean | number
+  /** Options rendered above and below the visible band when virtualized (default: 5) */
+  overscan?: number
+  /**
+   * Infinite loop mode: scrolling past the last option continues at the first
+   * and keyboard navigation wraps (default: false). Requires a numeric
+   * `sizing.optionHeight`.
+   */
+  loop?: boolean
+  /** Jump to options by typing their label, like a native select (default: true) */
+  typeAhead?: boolean
+  /** Time in ms after which typed characters start a new search (default: 500) */
+  typeAheadTimeoutMs?: number
+  /** Delay in ms before `loadOptions` is called for a changed search query (default: 250) */
+  loadDebounceMs?: number
+  /**
+   * Feedback played as each option crosses the center band, e.g.
+   * `[createHapticFeedback(), createAudioFeedback()]`. Create providers once,
+   * outside of render. WheelSelect only (default: none).
+   */
+  feedback?: WheelSelectFeedback[]
 }
 
 /**
@@ -141,10 +295,18 @@ export interface WheelSelectIcons {
 export interface WheelSelectA11y {
   /** Aria label for the trigger button */
   triggerLabel?: string
-  /** Aria label for the picker dialog */
+  /** Aria label for the picker dialog, or the listbox of an inline wheel */
   pickerLabel?: string
   /** Custom aria-describedby id */
   describedBy?: string
+  /** Aria label for the search input (default: 'Search options') */
+  searchLabel?: string
+  /**
+   * Message read out when an option settles in the center band, given its
+   * position among the options from 1 (default: 'Apple, 3 of 12', followed by
+   * ', disabled' for a disabled option). WheelSelect only.
+   */
+  formatAnnouncement?: (option: WheelSelectOption, position: number, total: number) => string
 }
 
 /**
@@ -159,8 +321,16 @@ export interface WheelSelectCallbacks<T extends string = string> {
   onChange?: (value: T, option: WheelSelectOption<T>) => void
   /** Called when active (highlighted) item changes during scroll */
   onActiveChange?: (index: number, option: WheelSelectOption<T>) => void
+  /**
+   * Called as soon as a different option is in the center band while the
+   * wheel moves, before the scroll settles - the moment a physical wheel
+   * ticks. WheelSelect only.
+   */
+  onTick?: (index: number, option: WheelSelectOption<T>) => void
   /** Called on keyboard navigation */
   onKeyDown?: (event: KeyboardEvent) => void
+  /** Called when `loadOptions` rejects */
+  onLoadError?: (error: unknown) => void
 }
 
 /**
@@ -177,30 +347,78 @@ export interface WheelSelectRef {
   focus: () => void
   /** Get current open state */
   isOpen: () => boolean
-  /** Scroll to a specific option by index */
+  /** Scroll to a specific option by index (ignored while it is filtered out) */
   scrollToIndex: (index: number) => void
   /** Get the underlying native select element */
   getNativeSelect: () => HTMLSelectElement | null
+  /** Get the current value ('' when nothing is selected), or the values in multiple mode */
+  getValue: () => string | string[]
+  /**
+   * Check the constraints (`required`, `validate`, a custom validity) and show
+   * the message on the field when one fails. Returns whether the value is valid.
+   */
+  reportValidity: () => boolean
+  /** Set a custom validation message, like the native method ('' clears it) */
+  setCustomValidity: (message: string) => void
 }
 
 /**
- * Main component props
+ * Props passed to a custom trigger renderer
  */
-export interface WheelSelectProps<T extends string = string> {
-  /** Array of options */
-  options: WheelSelectOption<T>[]
-  /** Currently selected value */
-  value: T
-  /** Change handler */
-  onChange: (value: T) => void
+export interface WheelSelectTriggerProps<V> {
+  value: V
+  label: string
+  isOpen: boolean
+  disabled: boolean
+  /** Whether the field shows as invalid - set `aria-invalid` on your trigger */
+  invalid: boolean
+  onClick: () => void
+}
+
+/**
+ * Props shared by single and multiple selection modes
+ */
+export interface WheelSelectBaseProps<T extends string = string> {
+  /** Array of options (not needed with `loadOptions`) */
+  options?: WheelSelectOption<T>[]
+  /**
+   * Load options asynchronously, page by page, instead of passing `options`.
+   * The first page loads when the picker opens and further pages as the wheel
+   * nears its end. In searchable mode the query is passed to the loader
+   * instead of filtering locally.
+   */
+  loadOptions?: WheelSelectLoadOptions<T>
+  /** Label for a selected value whose option is not loaded (async mode) */
+  getOptionLabel?: (value: T) => string
+  /** Fetch the option of a selected value that is not loaded (async mode) */
+  resolveValue?: (value: T) => Promise<WheelSelectOption<T> | null>
+  /** Content shown while the first page loads (default: 'Loading...') */
+  loadingText?: ReactNode
+  /** Content shown when loading fails (default: 'Could not load options') */
+  errorText?: ReactNode
+  /** Label of the retry button shown after a failed load (default: 'Retry') */
+  retryText?: ReactNode
+  /** Label of the bottom sheet action that discards changes (default: 'Cancel') */
+  cancelText?: ReactNode
+  /** Label of the bottom sheet action that commits the centered option (default: 'Done') */
+  doneText?: ReactNode
   /** Placeholder text when no value selected */
   placeholder?: string
   /** Disabled state */
   disabled?: boolean
   /** Required field indicator */
   required?: boolean
+  /**
+   * Show the field as invalid - omit to follow the constraints (`required`,
+   * `validate`) once the user commits a value, leaves the field or submits the form
+   */
+  invalid?: boolean
+  /** Message shown under an invalid field (default: the browser's validation message) */
+  errorMessage?: ReactNode
   /** Name attribute for form submission */
   name?: string
+  /** Autocomplete hint for the hidden native select, so browsers can autofill it */
+  autoComplete?: string
   /** ID attribute */
   id?: string
   /** Additional CSS class */
@@ -219,642 +437,363 @@ export interface WheelSelectProps<T extends string = string> {
   a11y?: WheelSelectA11y
   /** Event callbacks */
   callbacks?: WheelSelectCallbacks<T>
-  /** Custom trigger renderer */
-  renderTrigger?: (props: {
-    value: T
-    label: string
-    isOpen: boolean
-    disabled: boolean
-    onClick: () => void
-  }) => ReactNode
   /** Custom option renderer */
   renderOption?: (props: {
     option: WheelSelectOption<T>
     index: number
     isActive: boolean
     isSelected: boolean
+    /** Whether the select is in multiple mode (render a check state) */
+    multiple: boolean
+    /** Current search query in searchable mode ('' otherwise) */
+    query: string
   }) => ReactNode
+  /** Render a search input above the wheel that filters the options */
+  searchable?: boolean
+  /**
+   * Whether an option matches the search query (default: a case- and
+   * accent-insensitive fuzzy match on the label)
+   */
+  filterOption?: (option: WheelSelectOption<T>, query: string) => boolean
+  /** Placeholder of the search input (default: 'Search...') */
+  searchPlaceholder?: string
+  /** Content shown when no option matches the query (default: 'No results') */
+  noResultsText?: ReactNode
   /** Z-index for the picker overlay */
   zIndex?: number
+  /**
+   * 'popover' opens the wheel from a trigger over a backdrop, 'inline' renders
+   * the wheel in place, always visible, without a trigger (default: 'popover')
+   */
+  variant?: 'popover' | 'inline'
+  /**
+   * Whether the picker is open - omit to let the component own its open
+   * state. Ignored by the inline variant.
+   */
+  open?: boolean
+  /** Whether the picker starts open in uncontrolled mode (default: false) */
+  defaultOpen?: boolean
+  /**
+   * Called when the picker asks to open or close, with what caused it. In
+   * controlled mode the picker only opens or closes once `open` changes.
+   */
+  onOpenChange?: (open: boolean, reason: WheelSelectOpenChangeReason) => void
 }
 
-// ============================================================================
-// Default Values
-// ============================================================================
-
-const defaultTheme: Required<WheelSelectTheme> = {
-  colorScheme: 'dark',
-  colors: {
-    text: 'inherit',
-    textMuted: 'inherit',
-    activeBg: 'rgba(255, 255, 255, 0.12)',
-    hoverBg: 'rgba(255, 255, 255, 0.12)',
-    backdropBg: 'rgba(0, 0, 0, 0.5)',
-    focusRing: 'rgba(255, 255, 255, 0.5)',
-  },
-  borderRadius: 12,
-  font: {
-    family: 'inherit',
-    size: 28,
-    weight: 500,
-    triggerSize: 'inherit',
-  },
-  animation: {
-    duration: 200,
-    easing: 'ease',
-    disabled: false,
-  },
-  spacing: {
-    triggerGap: 16,
-    triggerPadding: '8px 16px',
-    optionGap: 16,
-    optionPadding: '0 20px',
-  },
-}
-
-const defaultSizing: Required<WheelSelectSizing> = {
-  wheelHeight: 320,
-  wheelMinWidth: 220,
-  optionHeight: 56,
-  iconSize: 20,
-}
-
-const defaultBehavior: Required<WheelSelectBehavior> = {
-  closeOnOutsideClick: true,
-  closeOnEscape: true,
-  closeOnSelect: true,
-  scrollDebounceMs: 50,
-  keyboardNavigation: true,
-  portalTarget: null,
-  focusTriggerOnClose: true,
-}
-
-// ============================================================================
-// Icon Components
-// ============================================================================
-
-interface IconProps {
-  size?: number
-  className?: string
+/**
+ * Single selection props (default)
+ */
+export interface WheelSelectSingleProps<T extends string = string> extends WheelSelectBaseProps<T> {
+  /** Single selection mode */
+  multiple?: false
+  /** Currently selected value - omit to let the component own its state */
+  value?: T
+  /** Initial value in uncontrolled mode, restored when the parent form resets */
+  defaultValue?: T
+  /** Change handler */
+  onChange?: (value: T) => void
+  /**
+   * Validate the value ('' when nothing is selected) - return an error message,
+   * or nothing when it is valid. Blocks form submission like a native constraint.
+   */
+  validate?: (value: T) => string | null | undefined
+  /** Custom trigger renderer */
+  renderTrigger?: (props: WheelSelectTriggerProps<T>) => ReactNode
 }
 
-const DefaultChevronIcon = ({ size = 20, className }: IconProps) => (
-  <svg
-    width={size}
-    height={size}
-    viewBox="0 0 24 24"
-    fill="none"
-    stroke="currentColor"
-    strokeWidth="2"
-    strokeLinecap="round"
-    strokeLinejoin="round"
-    className={className}
-    aria-hidden="true"
-  >
-    <polyline points="8 9 12 5 16 9" />
-    <polyline points="8 15 12 19 16 15" />
-  </svg>
-)
-
-const DefaultArrowIcon = ({ size = 20, className }: IconProps) => (
-  <svg
-    width={size}
-    height={size}
-    viewBox="0 0 24 24"
-    fill="none"
-    stroke="currentColor"
-    strokeWidth="2"
-    strokeLinecap="round"
-    strokeLinejoin="round"
-    className={className}
-    aria-hidden="true"
-  >
-    <line x1="19" y1="12" x2="5" y2="12" />
-    <polyline points="12 19 5 12 12 5" />
-  </svg>
-)
-
-// ============================================================================
-// Utility Functions
-// ============================================================================
-
-const toCssValue = (value: number | string | undefined, defaultValue: string = '0'): string => {
-  if (value === undefined) return defaultValue
-  return typeof value === 'number' ? `${value}px` : value
+/**
+ * Multiple selection props
+ */
+export interface WheelSelectMultipleProps<T extends string = string> extends WheelSelectBaseProps<T> {
+  /** Multiple selection mode - Enter, Space and click toggle options */
+  multiple: true
+  /** Currently selected values - omit to let the component own its state */
+  value?: T[]
+  /** Initial values in uncontrolled mode, restored when the parent form resets */
+  defaultValue?: T[]
+  /** Change handler, receives all selected values in option order */
+  onChange?: (value: T[]) => void
+  /**
+   * Validate the values - return an error message, or nothing when they are
+   * valid. Blocks form submission like a native constraint.
+   */
+  validate?: (value: T[]) => string | null | undefined
+  /** Format the trigger label (default: the label for one, "N selected" for more) */
+  formatSelection?: (selected: WheelSelectOption<T>[]) => string
+  /** Custom trigger renderer */
+  renderTrigger?: (props: WheelSelectTriggerProps<T[]>) => ReactNode
 }
 
-const mergeDeep = <T extends Record<string, unknown>>(target: T, source: Partial<T>): T => {
-  const result = { ...target }
-  for (const key in source) {
-    if (source[key] !== undefined) {
-      if (
-        typeof source[key] === 'object' &&
-        source[key] !== null &&
-        !Array.isArray(source[key])
-      ) {
-        result[key] = mergeDeep(
-          target[key] as Record<string, unknown>,
-          source[key] as Record<string, unknown>
-        ) as T[Extract<keyof T, string>]
-      } else {
-        result[key] = source[key] as T[Extract<keyof T, string>]
-      }
-    }
-  }
-  return result
-}
+/**
+ * Main component props
+ */
+export type WheelSelectProps<T extends string = string> =
+  | WheelSelectSingleProps<T>
+  | WheelSelectMultipleProps<T>
 
 // ============================================================================
 // Main Component
 // ============================================================================
 
+
 function WheelSelectInner<T extends string = string>(
   props: WheelSelectProps<T>,
   ref: React.ForwardedRef<WheelSelectRef>
 ) {
   const {
-    options,
-    value,
-    onChange,
+    loadingText = 'Loading...',
+    errorText = 'Could not load options',
+    retryText = 'Retry',
+    cancelText = 'Cancel',
+    doneText = 'Done',
     placeholder = 'Select...',
     disabled = false,
-    required = false,
-    name,
-    id,
     className = '',
     style,
-    theme: themeProp,
-    sizing: sizingProp,
-    behavior: behaviorProp,
     icons,
-    a11y,
-    callbacks,
-    renderTrigger,
     renderOption,
-    zIndex = 10001,
+    searchable = false,
+    noResultsText = 'No results',
   } = props
 
-  // Merge configurations with defaults
-  const theme = useMemo(
-    () => mergeDeep(defaultTheme, themeProp || {}),
-    [themeProp]
-  )
-  const sizing = useMemo(
-    () => mergeDeep(defaultSizing, sizingProp || {}),
-    [sizingProp]
-  )
-  const behavior = useMemo(
-    () => mergeDeep(defaultBehavior, behaviorProp || {}),
-    [behaviorProp]
-  )
-
-  // State
-  const [isOpen, setIsOpen] = useState(false)
-  const [activeIndex, setActiveIndex] = useState(() =>
-    Math.max(0, options.findIndex(o => o.value === value))
-  )
-  const [triggerRect, setTriggerRect] = useState<DOMRect | null>(null)
-
-  // Refs
-  const triggerRef = useRef<HTMLButtonElement>(null)
-  const selectRef = useRef<HTMLSelectElement>(null)
-  const wheelRef = useRef<HTMLDivElement>(null)
-  const itemRefs = useRef<(HTMLDivElement | null)[]>([])
-  const initialScrollIndexRef = useRef<number | null>(null)
-  const scrollTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
-  const isScrollingRef = useRef(false)
-
-  // Computed values
-  const selectedOption = useMemo(
-    () => options.find(o => o.value === value),
-    [options, value]
-  )
-  const displayLabel = selectedOption?.label ?? placeholder
-
-  // Keep active index in sync when value changes externally
-  useEffect(() => {
-    const idx = options.findIndex(o => o.value === value)
-    if (idx !== -1) {
-      setActiveIndex(idx)
-    }
-  }, [value, options])
-
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      if (scrollTimeoutRef.current) {
-        clearTimeout(scrollTimeoutRef.current)
-      }
-    }
-  }, [])
-
-  // Calculate spacer height based on wheel and option heights
-  const spacerHeight = useMemo(() => {
-    const wheelH = typeof sizing.wheelHeight === 'number' ? sizing.wheelHeight : 320
-    const optionH = typeof sizing.optionHeight === 'number' ? sizing.optionHeight : 56
-    return (wheelH / 2) - (optionH / 2)
-  }, [sizing.wheelHeight, sizing.optionHeight])
-
-  // Open picker
-  const openPicker = useCallback(() => {
-    if (disabled) return
-    if (triggerRef.current) {
-      setTriggerRect(triggerRef.current.getBoundingClientRect())
-    }
-    const idx = options.findIndex(o => o.value === value)
-    const targetIndex = idx !== -1 ? idx : 0
-    initialScrollIndexRef.current = targetIndex
-    setActiveIndex(targetIndex)
-    setIsOpen(true)
-    callbacks?.onOpen?.()
-  }, [disabled, options, value, callbacks])
-
-  // Close picker
-  const closePicker = useCallback(() => {
-    setIsOpen(false)
-    if (behavior.focusTriggerOnClose) {
-      triggerRef.current?.focus()
-    }
-    callbacks?.onClose?.()
-  }, [behavior.focusTriggerOnClose, callbacks])
-
-  // Commit selection
-  const commitSelection = useCallback((newValue: T) => {
-    const option = options.find(o => o.value === newValue)
-    if (!option || option.disabled) return
-
-    onChange(newValue)
-    callbacks?.onChange?.(newValue, option)
-
-    if (selectRef.current) {
-      selectRef.current.value = newValue
-    }
+  const select = useWheelSelect(props)
+  const {
+    isOpen,
+    isInline,
+    isSheet,
+    isMultiple,
+    isCylinder,
+    value,
+    selectedValues,
+    displayLabel,
+    loadStatus,
+    sizing,
+    cssVariables,
+  } = select
 
-    if (behavior.closeOnSelect) {
-      setIsOpen(false)
-      if (behavior.focusTriggerOnClose) {
-        triggerRef.current?.focus()
-      }
-      callbacks?.onClose?.()
-    }
-  }, [onChange, options, behavior.closeOnSelect, behavior.focusTriggerOnClose, callbacks])
-
-  // Scroll to selected item when picker opens
-  useEffect(() => {
-    if (isOpen && initialScrollIndexRef.current !== null) {
-      const targetIndex = initialScrollIndexRef.current
-      initialScrollIndexRef.current = null
-
-      requestAnimationFrame(() => {
-        const wheel = wheelRef.current
-        const item = itemRefs.current[targetIndex]
-        if (wheel && item) {
-          const wheelHeight = wheel.clientHeight
-          const itemHeight = item.clientHeight
-          const itemTop = item.offsetTop
-          const scrollTarget = itemTop - (wheelHeight / 2) + (itemHeight / 2)
-          wheel.scrollTop = scrollTarget
-        }
-      })
-    }
-  }, [isOpen])
+  // Imperative handle
+  useImperativeHandle(ref, () => ({
+    open: () => select.open(),
+    close: () => select.close(),
+    toggle: select.toggle,
+    focus: select.focus,
+    isOpen: () => isOpen,
+    scrollToIndex: select.scrollToIndex,
+    getNativeSelect: select.getNativeSelect,
+    getValue: () => (isMultiple ? selectedValues : value ?? ''),
+    reportValidity: select.reportValidity,
+    setCustomValidity: select.setCustomValidity,
+  }), [isOpen, select.open, select.close, select.toggle, select.focus, select.scrollToIndex, select.getNativeSelect, isMultiple, selectedValues, value, select.reportValidity, select.setCustomValidity])
 
-  // Focus wheel when picker opens
-  useEffect(() => {
-    if (isOpen && wheelRef.current) {
-      wheelRef.current.focus()
-    }
-  }, [isOpen])
-
-  // Calculate active index from scroll position
-  const calculateActiveFromScroll = useCallback(() => {
-    const wheel = wheelRef.current
-    if (!wheel) return
-
-    const wheelRect = wheel.getBoundingClientRect()
-    const wheelCenter = wheelRect.top + wheelRect.height / 2
-
-    let closestIndex = 0
-    let closestDistance = Infinity
-
-    itemRefs.current.forEach((item, index) => {
-      if (!item) return
-      const itemRect = item.getBoundingClientRect()
-      const itemCenter = itemRect.top + itemRect.height / 2
-      const distance = Math.abs(itemCenter - wheelCenter)
-
-      if (distance < closestDistance) {
-        closestDistance = distance
-        closestIndex = index
-      }
-    })
-
-    setActiveIndex(closestIndex)
-    const option = options[closestIndex]
-    if (option) {
-      callbacks?.onActiveChange?.(closestIndex, option)
+  // Determine color scheme class
+  const colorSchemeClass = getColorSchemeClass(select.theme.colorScheme)
+
+  // Render a single row - an option, or a group header
+  const renderOptionItem = (row: number) => {
+    const state = select.getRow(row)
+    if (!state) return null
+    const { key, option, index, isActive, isSelected } = state
+
+    if (state.isGroupHeader) {
+      return (
+        <div key={key} {...select.getOptionProps(row)} className="ws-group-header">
+          {option.label}
+        </div>
+      )
     }
-  }, [options, callbacks])
 
-  // Handle scroll with debounce
-  const handleScroll = useCallback(() => {
-    isScrollingRef.current = true
-
-    if (scrollTimeoutRef.current) {
-      clearTimeout(scrollTimeoutRef.current)
-    }
+    return (
+      <div
+        key={key}
+        {...select.getOptionProps(row)}
+        className={`ws-option ${isActive ? 'ws-active' : ''} ${isSelected ? 'ws-selected' : ''} ${option.disabled ? 'ws-disabled' : ''}`}
+      >
+        {renderOption
+          ? renderOption({ option, index, isActive, isSelected, multiple: isMultiple, query: select.filterQuery })
+          : (
+            <>
+              {isMultiple && (
+                <span className="ws-option-check" aria-hidden="true">
+                  {isSelected && <DefaultCheckIcon size={sizing.iconSize} />}
+                </span>
+              )}
+              <span className="ws-option-text">{highlightMatches(option.label, select.filterQuery)}</span>
+            </>
+          )}
+      </div>
+    )
+  }
 
-    scrollTimeoutRef.current = setTimeout(() => {
-      isScrollingRef.current = false
-      calculateActiveFromScroll()
-    }, behavior.scrollDebounceMs)
-  }, [calculateActiveFromScroll, behavior.scrollDebounceMs])
-
-  // Keyboard navigation
-  const handlePickerKeyDown = useCallback((e: KeyboardEvent) => {
-    if (!behavior.keyboardNavigation) return
-
-    callbacks?.onKeyDown?.(e)
-
-    switch (e.key) {
-      case 'Escape':
-        if (behavior.closeOnEscape) {
-          e.preventDefault()
-          closePicker()
-        }
-        break
-      case 'ArrowUp':
-        e.preventDefault()
-        setActiveIndex(prev => {
-          let newIndex = prev - 1
-          // Skip disabled options
-          while (newIndex >= 0 && options[newIndex]?.disabled) {
-            newIndex--
-          }
-          if (newIndex < 0) return prev
-          const item = itemRefs.current[newIndex]
-          item?.scrollIntoView({ block: 'center', behavior: 'smooth' })
-          return newIndex
-        })
-        break
-      case 'ArrowDown':
-        e.preventDefault()
-        setActiveIndex(prev => {
-          let newIndex = prev + 1
-          // Skip disabled options
-          while (newIndex < options.length && options[newIndex]?.disabled) {
-            newIndex++
-          }
-          if (newIndex >= options.length) return prev
-          const item = itemRefs.current[newIndex]
-          item?.scrollIntoView({ block: 'center', behavior: 'smooth' })
-          return newIndex
-        })
-        break
-      case 'Enter':
-      case ' ':
-        e.preventDefault()
-        const option = options[activeIndex]
-        if (option && !option.disabled) {
-          commitSelection(option.value)
-        }
-        break
-      case 'Home':
-        e.preventDefault()
-        const firstEnabled = options.findIndex(o => !o.disabled)
-        if (firstEnabled !== -1) {
-          setActiveIndex(firstEnabled)
-          itemRefs.current[firstEnabled]?.scrollIntoView({ block: 'center', behavior: 'smooth' })
-        }
-        break
-      case 'End':
-        e.preventDefault()
-        const lastEnabled = options.findLastIndex(o => !o.disabled)
-        if (lastEnabled !== -1) {
-          setActiveIndex(lastEnabled)
-          itemRefs.current[lastEnabled]?.scrollIntoView({ block: 'center', behavior: 'smooth' })
-        }
-        break
-    }
-  }, [behavior.keyboardNavigation, behavior.closeOnEscape, options, activeIndex, closePicker, commitSelection, callbacks])
-
-  // Handle item click
-  const handleItemClick = useCallback((index: number) => (e: MouseEvent) => {
-    e.preventDefault()
-    e.stopPropagation()
-    if (scrollTimeoutRef.current) {
-      clearTimeout(scrollTimeoutRef.current)
-      scrollTimeoutRef.current = null
-    }
-    const option = options[index]
-    if (option && !option.disabled) {
-      commitSelection(option.value)
-    }
-  }, [options, commitSelection])
+  // Render the search input - in the popover it sits above the wheel so the
+  // center band stays aligned with the trigger
+  const renderSearch = () => searchable && (
+    <div className="ws-search">
+      <input {...select.getSearchProps()} className="ws-search-input" />
+    </div>
+  )
 
-  // Handle backdrop click
-  const handleBackdropClick = useCallback((e: MouseEvent) => {
-    if (behavior.closeOnOutsideClick && e.target === e.currentTarget) {
-      closePicker()
-    }
-  }, [behavior.closeOnOutsideClick, closePicker])
+  // Render the wheel with its center highlight, shared by both variants
+  const renderWheel = () => (
+    <>
+      {/* Fixed center highlight - stays in place while scrolling */}
+      {!select.isEmpty && (
+        <div className="ws-center-highlight" aria-hidden="true">
+          {!icons?.hideArrow && (
+            icons?.arrow ?? <DefaultArrowIcon size={sizing.iconSize} className="ws-arrow" />
+          )}
+        </div>
+      )}
 
-  // Handle native select change
-  const handleNativeChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
-    onChange(e.target.value as T)
-  }, [onChange])
+      {select.hasGroupHeaders && (
+        <div {...select.getStickyHeaderProps()} className="ws-group-header ws-sticky-header">
+          {select.stickyGroup}
+        </div>
+      )}
 
-  // Scroll to specific index
-  const scrollToIndex = useCallback((index: number) => {
-    const item = itemRefs.current[index]
-    item?.scrollIntoView({ block: 'center', behavior: 'smooth' })
-  }, [])
+      <div {...select.getListboxProps()} className={`ws-wheel ${select.isDragging ? 'ws-dragging' : ''}`}>
+        <div className="ws-spacer" aria-hidden="true" />
 
-  // Imperative handle
-  useImperativeHandle(ref, () => ({
-    open: openPicker,
-    close: closePicker,
-    toggle: () => isOpen ? closePicker() : openPicker(),
-    focus: () => triggerRef.current?.focus(),
-    isOpen: () => isOpen,
-    scrollToIndex,
-    getNativeSelect: () => selectRef.current,
-  }), [isOpen, openPicker, closePicker, scrollToIndex])
-
-  // Generate CSS custom properties
-  const cssVariables = useMemo((): CSSProperties => ({
-    '--ws-color-text': theme.colors.text,
-    '--ws-color-text-muted': theme.colors.textMuted,
-    '--ws-color-active-bg': theme.colors.activeBg,
-    '--ws-color-hover-bg': theme.colors.hoverBg,
-    '--ws-color-backdrop-bg': theme.colors.backdropBg,
-    '--ws-color-focus-ring': theme.colors.focusRing,
-    '--ws-border-radius': toCssValue(theme.borderRadius),
-    '--ws-font-family': theme.font.family,
-    '--ws-font-size': toCssValue(theme.font.size),
-    '--ws-font-weight': String(theme.font.weight),
-    '--ws-font-size-trigger': toCssValue(theme.font.triggerSize),
-    '--ws-animation-duration': theme.animation.disabled ? '0ms' : `${theme.animation.duration}ms`,
-    '--ws-animation-easing': theme.animation.easing,
-    '--ws-trigger-gap': toCssValue(theme.spacing.triggerGap),
-    '--ws-trigger-padding': theme.spacing.triggerPadding,
-    '--ws-option-gap': toCssValue(theme.spacing.optionGap),
-    '--ws-option-padding': theme.spacing.optionPadding,
-    '--ws-wheel-height': toCssValue(sizing.wheelHeight),
-    '--ws-wheel-min-width': toCssValue(sizing.wheelMinWidth),
-    '--ws-option-height': toCssValue(sizing.optionHeight),
-    '--ws-icon-size': `${sizing.iconSize}px`,
-    '--ws-spacer-height': `${spacerHeight}px`,
-    '--ws-z-index': String(zIndex),
-  } as CSSProperties), [theme, sizing, spacerHeight, zIndex])
+        {select.isVirtualized ? (
+          <div {...select.getVirtualListProps()} className="ws-virtual-list">
+            {select.rows.map(row => renderOptionItem(row))}
+          </div>
+        ) : (
+          select.rows.map(row => renderOptionItem(row))
+        )}
+
+        {/* The end spacer shows the state of the next page in async mode */}
+        {!select.isEmpty && loadStatus !== 'idle' ? (
+          <div className="ws-spacer">
+            {loadStatus === 'loading' ? (
+              <div className="ws-load-more" role="status">
+                {loadingText}
+              </div>
+            ) : (
+              <div className="ws-load-more" role="alert">
+                <span>{errorText}</span>
+                <button type="button" className="ws-retry" onClick={select.retryLoad}>
+                  {retryText}
+                </button>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="ws-spacer" aria-hidden="true" />
+        )}
+      </div>
+
+      {select.isEmpty && (
+        loadStatus === 'loading' ? (
+          <div className="ws-loading" role="status">
+            {loadingText}
+          </div>
+        ) : loadStatus === 'error' ? (
+          <div className="ws-load-error" role="alert">
+            <span>{errorText}</span>
+            <button type="button" className="ws-retry" onClick={select.retryLoad}>
+              {retryText}
+            </button>
+          </div>
+        ) : (
+          <div className="ws-no-results" role="status">
+            {noResultsText}
+          </div>
+        )
+      )}
 
-  // Determine color scheme class
-  const colorSchemeClass = theme.colorScheme === 'auto'
-    ? ''
-    : theme.colorScheme === 'light'
-      ? 'ws-light'
-      : 'ws-dark'
+      <div {...select.getLiveRegionProps()} className="ws-live-region">
+        {select.announcement}
+      </div>
+    </>
+  )
 
   // Render the picker portal
   const renderPicker = () => {
-    if (!isOpen || !triggerRect) return null
-
-    const portalTarget = behavior.portalTarget ?? document.body
-
-    return createPortal(
-      <div
-        className="ws-backdrop"
-        onClick={handleBackdropClick}
-        role="presentation"
-        style={cssVariables}
-      >
-        <div
-          className="ws-picker"
-          style={{
-            left: triggerRect.left,
-            top: triggerRect.top + triggerRect.height / 2,
-          }}
-          role="dialog"
-          aria-modal="true"
-          aria-label={a11y?.pickerLabel ?? 'Select an option'}
-        >
-          {/* Fixed center highlight - stays in place while scrolling */}
-          <div className="ws-center-highlight" aria-hidden="true">
-            {!icons?.hideArrow && (
-              icons?.arrow ?? <DefaultArrowIcon size={sizing.iconSize} className="ws-arrow" />
-            )}
+    if (isInline || !isOpen) return null
+
+    const portalTarget = select.behavior.portalTarget ?? document.body
+
+    if (isSheet) {
+      return createPortal(
+        <div {...select.getBackdropProps()} className="ws-backdrop" style={cssVariables}>
+          <div {...select.getPickerProps()} className={`ws-picker ws-sheet ${isCylinder ? 'ws-cylinder' : ''} ${select.isSheetDragging ? 'ws-dragging' : ''}`}>
+            <div {...select.getSheetHeaderProps()} className="ws-sheet-header">
+              <span className="ws-sheet-handle" aria-hidden="true" />
+              <button type="button" className="ws-sheet-action ws-sheet-cancel" onClick={select.cancel}>
+                {cancelText}
+              </button>
+              <button type="button" className="ws-sheet-action ws-sheet-done" onClick={select.confirm}>
+                {doneText}
+              </button>
+            </div>
+            {renderSearch()}
+            <div className="ws-sheet-body">
+              {renderWheel()}
+            </div>
           </div>
+        </div>,
+        portalTarget
+      )
+    }
 
-          <div
-            ref={wheelRef}
-            className="ws-wheel"
-            role="listbox"
-            tabIndex={0}
-            onKeyDown={handlePickerKeyDown}
-            onScroll={handleScroll}
-            aria-activedescendant={`ws-option-${id ?? 'default'}-${activeIndex}`}
-            aria-describedby={a11y?.describedBy}
-          >
-            <div className="ws-spacer" aria-hidden="true" />
-
-            {options.map((option, index) => {
-              const isActive = index === activeIndex
-              const isSelected = option.value === value
-
-              if (renderOption) {
-                return (
-                  <div
-                    key={option.value}
-                    ref={el => { itemRefs.current[index] = el }}
-                    id={`ws-option-${id ?? 'default'}-${index}`}
-                    role="option"
-                    aria-selected={isSelected}
-                    aria-disabled={option.disabled}
-                    className={`ws-option ${isActive ? 'ws-active' : ''} ${option.disabled ? 'ws-disabled' : ''}`}
-                    onClick={handleItemClick(index)}
-                  >
-                    {renderOption({ option, index, isActive, isSelected })}
-                  </div>
-                )
-              }
-
-              return (
-                <div
-                  key={option.value}
-                  ref={el => { itemRefs.current[index] = el }}
-                  id={`ws-option-${id ?? 'default'}-${index}`}
-                  role="option"
-                  aria-selected={isSelected}
-                  aria-disabled={option.disabled}
-                  className={`ws-option ${isActive ? 'ws-active' : ''} ${option.disabled ? 'ws-disabled' : ''}`}
-                  onClick={handleItemClick(index)}
-                >
-                  <span className="ws-option-text">{option.label}</span>
-                </div>
-              )
-            })}
-
-            <div className="ws-spacer" aria-hidden="true" />
-          </div>
+    return createPortal(
+      <div {...select.getBackdropProps()} className="ws-backdrop" style={cssVariables}>
+        <div {...select.getPickerProps()} className={`ws-picker ${isCylinder ? 'ws-cylinder' : ''}`}>
+          {renderSearch()}
+          {renderWheel()}
         </div>
       </div>,
       portalTarget
     )
   }
 
+  const triggerState = {
+    label: displayLabel,
+    isOpen,
+    disabled,
+    invalid: select.isInvalid,
+    onClick: () => select.open('trigger'),
+  }
+
   return (
     <span
-      className={`ws-root ${colorSchemeClass} ${className}`}
+      {...select.getRootProps()}
+      className={`ws-root ${isInline ? 'ws-inline' : ''} ${disabled ? 'ws-disabled' : ''} ${select.isInvalid ? 'ws-invalid' : ''} ${colorSchemeClass} ${className}`}
       style={{ ...cssVariables, ...style }}
     >
       {/* Hidden native select for form submission */}
-      <select
-        ref={selectRef}
-        name={name}
-        id={id ? `${id}-native` : undefined}
-        value={value}
-        onChange={handleNativeChange}
-        className="ws-native-select"
-        tabIndex={-1}
-        aria-hidden="true"
-        required={required}
-        disabled={disabled}
-      >
-        {!selectedOption && <option value="">{placeholder}</option>}
-        {options.map(option => (
-          <option
-            key={option.value}
-            value={option.value}
-            disabled={option.disabled}
-          >
-            {option.label}
-          </option>
-        ))}
+      <select {...select.getNativeSelectProps()} className="ws-native-select">
+        {!isMultiple && select.selectedOptions.length === 0 && <option value="">{placeholder}</option>}
+        {groupAdjacent(select.nativeOptions).map((run, runIndex) => {
+          const runOptions = run.options.map(option => (
+            <option
+              key={option.value}
+              value={option.value}
+              disabled={option.disabled}
+            >
+              {option.label}
+            </option>
+          ))
+          return run.group === undefined
+            ? runOptions
+            : <optgroup key={`group-${runIndex}`} label={run.group}>{runOptions}</optgroup>
+        })}
       </select>
 
-      {/* Trigger button */}
-      {renderTrigger ? (
-        renderTrigger({
-          value,
-          label: displayLabel,
-          isOpen,
-          disabled,
-          onClick: openPicker,
-        })
+      {/* Inline wheel - rendered in place instead of a trigger */}
+      {isInline ? (
+        <>
+          {renderSearch()}
+          <div {...select.getPickerProps()} className={`ws-picker ${isCylinder ? 'ws-cylinder' : ''}`}>
+            {renderWheel()}
+          </div>
+        </>
+      ) : props.renderTrigger ? (
+        props.multiple
+          ? props.renderTrigger({ value: selectedValues, ...triggerState })
+          : props.renderTrigger({ value: value ?? ('' as T), ...triggerState })
       ) : (
-        <button
-          ref={triggerRef}
-          type="button"
-          id={id}
-          className={`ws-trigger ${isOpen ? 'ws-open' : ''}`}
-          onClick={openPicker}
-          disabled={disabled}
-          aria-haspopup="listbox"
-          aria-expanded={isOpen}
-          aria-label={a11y?.triggerLabel}
-          aria-describedby={a11y?.describedBy}
-          style={{ visibility: isOpen ? 'hidden' : 'visible' }}
-        >
+        <button {...select.getTriggerProps()} className={`ws-trigger ${isOpen ? 'ws-open' : ''}`}>
           <span className="ws-trigger-text">{displayLabel}</span>
           {!icons?.hideChevron && (
             icons?.chevron ?? <DefaultChevronIcon size={sizing.iconSize} className="ws-chevron" />
@@ -862,6 +801,13 @@ function WheelSelectInner<T extends string = string>(
         </button>
       )}
 
+      {/* Validation message */}
+      {select.errorMessage !== null && (
+        <span {...select.getErrorMessageProps()} className="ws-error-message">
+          {select.errorMessage}
+        </span>
+      )}
+
       {/* Picker portal */}
       {renderPicker()}
     </span>
@@ -0,0 +1,800 @@
+import {
+  useState,
+  useRef,
+  useEffect,
+  useLayoutEffect,
+  useCallback,
+  useMemo,
+  useId,
+  forwardRef,
+  useImperativeHandle,
+  Fragment,
+  type KeyboardEvent,
+  type MouseEvent,
+  type ReactNode,
+  type CSSProperties,
+} from 'react'
+import { createPortal } from 'react-dom'
+import type {
+  WheelSelectOption,
+  WheelSelectTheme,
+  WheelSelectSizing,
+  WheelSelectBehavior,
+  WheelSelectIcons,
+  WheelSelectA11y,
+} from './WheelSelect'
+import {
+  defaultTheme,
+  defaultSizing,
+  defaultBehavior,
+  DefaultChevronIcon,
+  DefaultArrowIcon,
+  mergeDeep,
+  toCssValue,
+  getSpacerHeight,
+  buildCssVariables,
+  getColorSchemeClass,
+  getClosestItemIndex,
+  isCylinderAppearance,
+  applyCylinderTransforms,
+  usePickerPosition,
+  useModalDialog,
+} from './shared'
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+/**
+ * A single wheel column inside a group
+ */
+export interface WheelSelectColumn<T extends string = string> {
+  /** Stable key for the column (default: column index) */
+  key?: string
+  /** Array of options for this column */
+  options: WheelSelectOption<T>[]
+  /** Currently selected value of this column */
+  value: T
+  /** Change handler for this column */
+  onChange: (value: T) => void
+  /** Called when the highlighted value of this column changes while the picker is open */
+  onActiveChange?: (value: T) => void
+  /** Value the wheel starts at when `value` matches no option (default: first option) */
+  fallbackValue?: T
+  /** Name attribute of this column's native select */
+  name?: string
+  /** Aria label for this column's listbox */
+  label?: string
+  /** Placeholder shown in the trigger when no value is selected */
+  placeholder?: string
+  /** Minimum width of this column's wheel */
+  minWidth?: number | string
+  /** Separator rendered before this column (overrides the group separator) */
+  separator?: string
+}
+
+/**
+ * Event callbacks for a wheel group
+ */
+export interface WheelSelectGroupCallbacks {
+  /** Called when the picker opens */
+  onOpen?: () => void
+  /** Called when the picker closes */
+  onClose?: () => void
+  /** Called when a column value changes */
+  onChange?: (columnIndex: number, value: string, option: WheelSelectOption) => void
+  /** Called when the active (highlighted) item of a column changes during scroll */
+  onActiveChange?: (columnIndex: number, index: number, option: WheelSelectOption) => void
+  /** Called on keyboard navigation */
+  onKeyDown?: (event: KeyboardEvent) => void
+}
+
+/**
+ * Ref handle for imperative control of a wheel group
+ */
+export interface WheelSelectGroupRef {
+  /** Open the picker programmatically */
+  open: () => void
+  /** Close the picker programmatically */
+  close: () => void
+  /** Toggle the picker */
+  toggle: () => void
+  /** Focus the trigger */
+  focus: () => void
+  /** Get current open state */
+  isOpen: () => boolean
+  /** Move keyboard focus to a column while the picker is open */
+  focusColumn: (columnIndex: number) => void
+  /** Scroll a column to a specific option by index */
+  scrollToIndex: (columnIndex: number, index: number) => void
+  /** Get the underlying native select elements, one per column */
+  getNativeSelects: () => (HTMLSelectElement | null)[]
+}
+
+/**
+ * Wheel group props
+ */
+export interface WheelSelectGroupProps {
+  /** Columns rendered side-by-side inside the picker */
+  columns: WheelSelectColumn[]
+  /** Separator rendered between columns in the picker and the trigger label */
+  separator?: string
+  /** Format the trigger label from the column labels (default: joined by separator) */
+  formatLabel?: (labels: string[]) => string
+  /**
+   * Commit the highlighted value of every column at once (`Enter` / `Space`),
+   * in column order - for values whose columns depend on each other. When set,
+   * it is called instead of the columns' `onChange` for that commit.
+   */
+  onCommit?: (values: string[]) => void
+  /** Placeholder text for columns without a selected value */
+  placeholder?: string
+  /** Disabled state */
+  disabled?: boolean
+  /** Required field indicator */
+  required?: boolean
+  /** ID attribute */
+  id?: string
+  /** Additional CSS class */
+  className?: string
+  /** Inline styles */
+  style?: CSSProperties
+  /** Theme configuration */
+  theme?: WheelSelectTheme
+  /** Sizing configuration */
+  sizing?: WheelSelectSizing
+  /** Behavior configuration */
+  behavior?: WheelSelectBehavior
+  /** Custom icons */
+  icons?: WheelSelectIcons
+  /** Accessibility configuration */
+  a11y?: WheelSelectA11y
+  /** Event callbacks */
+  callbacks?: WheelSelectGroupCallbacks
+  /** Custom trigger renderer */
+  renderTrigger?: (props: {
+    values: string[]
+    labels: string[]
+    label: string
+    isOpen: boolean
+    disabled: boolean
+    onClick: () => void
+  }) => ReactNode
+  /** Z-index for the picker overlay */
+  zIndex?: number
+}
+
+// ============================================================================
+// Column Component
+// ============================================================================
+
+interface WheelColumnHandle {
+  focus: () => void
+  scrollToIndex: (index: number) => void
+}
+
+interface WheelColumnProps {
+  column: WheelSelectColumn
+  columnIndex: number
+  optionIdPrefix: string
+  initialIndex: number
+  scrollDebounceMs: number
+  keyboardNavigation: boolean
+  cylinder: Required<WheelSelectTheme>['cylinder'] | null
+  activeIndicesRef: React.MutableRefObject<number[]>
+  callbacks?: WheelSelectGroupCallbacks
+  onKeyDown: (columnIndex: number, e: KeyboardEvent) => void
+  onItemCommit: (columnIndex: number, index: number) => void
+}
+
+const WheelColumn = forwardRef<WheelColumnHandle, WheelColumnProps>(function WheelColumn(
+  {
+    column,
+    columnIndex,
+    optionIdPrefix,
+    initialIndex,
+    scrollDebounceMs,
+    keyboardNavigation,
+    cylinder,
+    activeIndicesRef,
+    callbacks,
+    onKeyDown,
+    onItemCommit,
+  },
+  ref
+) {
+  const { options, value } = column
+
+  const [activeIndex, setActiveIndex] = useState(initialIndex)
+
+  const wheelRef = useRef<HTMLDivElement>(null)
+  const itemRefs = useRef<(HTMLDivElement | null)[]>([])
+  const scrollTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const cylinderFrameRef = useRef<number | null>(null)
+
+  // Keep active index in sync when value or options change externally - new
+  // options alone keep the highlighted option where it is still listed
+  const lastValueRef = useRef(value)
+  const activeValueRef = useRef(options[initialIndex]?.value)
+  useEffect(() => {
+    const target = value !== lastValueRef.current ? value : activeValueRef.current
+    lastValueRef.current = value
+    const idx = options.findIndex(o => o.value === target)
+    if (idx !== -1) {
+      setActiveIndex(idx)
+    } else {
+      setActiveIndex(prev => Math.min(prev, Math.max(0, options.length - 1)))
+    }
+  }, [value, options])
+
+  // Share the active index with the group for commit-all
+  const activeValue = options[activeIndex]?.value
+  useEffect(() => {
+    activeIndicesRef.current[columnIndex] = activeIndex
+    activeValueRef.current = activeValue
+  }, [activeIndicesRef, columnIndex, activeIndex, activeValue])
+
+  // Report the highlighted value
+  const onActiveChangeRef = useRef(column.onActiveChange)
+  useEffect(() => {
+    onActiveChangeRef.current = column.onActiveChange
+  })
+  useEffect(() => {
+    if (activeValue !== undefined) {
+      onActiveChangeRef.current?.(activeValue)
+    }
+  }, [activeValue])
+
+  // Scroll to the initial item when the column mounts
+  useEffect(() => {
+    requestAnimationFrame(() => {
+      const wheel = wheelRef.current
+      const item = itemRefs.current[initialIndex]
+      if (wheel && item) {
+        wheel.scrollTop = item.offsetTop - (wheel.clientHeight / 2) + (item.clientHeight / 2)
+      }
+    })
+  }, [])
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => {
+      if (scrollTimeoutRef.current) {
+        clearTimeout(scrollTimeoutRef.current)
+      }
+      if (cylinderFrameRef.current !== null) {
+        cancelAnimationFrame(cylinderFrameRef.current)
+      }
+    }
+  }, [])
+
+  // Re-project the 3D cylinder after every render
+  useLayoutEffect(() => {
+    if (cylinder && wheelRef.current) {
+      applyCylinderTransforms(wheelRef.current, itemRefs.current, cylinder)
+    }
+  })
+
+  const scrollToIndex = useCallback((index: number) => {
+    itemRefs.current[index]?.scrollIntoView({ block: 'center', behavior: 'smooth' })
+  }, [])
+
+  useImperativeHandle(ref, () => ({
+    focus: () => wheelRef.current?.focus(),
+    scrollToIndex,
+  }), [scrollToIndex])
+
+  // Calculate active index from scroll position
+  const calculateActiveFromScroll = useCallback(() => {
+    const wheel = wheelRef.current
+    if (!wheel) return
+
+    const closestIndex = getClosestItemIndex(wheel, itemRefs.current)
+    setActiveIndex(closestIndex)
+    const option = options[closestIndex]
+    if (option) {
+      callbacks?.onActiveChange?.(columnIndex, closestIndex, option)
+    }
+  }, [options, callbacks, columnIndex])
+
+  // Handle scroll with debounce
+  const handleScroll = useCallback(() => {
+    if (cylinder && cylinderFrameRef.current === null) {
+      cylinderFrameRef.current = requestAnimationFrame(() => {
+        cylinderFrameRef.current = null
+        if (wheelRef.current) {
+          applyCylinderTransforms(wheelRef.current, itemRefs.current, cylinder)
+        }
+      })
+    }
+
+    if (scrollTimeoutRef.current) {
+      clearTimeout(scrollTimeoutRef.current)
+    }
+    scrollTimeoutRef.current = setTimeout(calculateActiveFromScroll, scrollDebounceMs)
+  }, [calculateActiveFromScroll, scrollDebounceMs, cylinder])
+
+  // Keyboard navigation within the column
+  const handleKeyDown = useCallback((e: KeyboardEvent) => {
+    if (!keyboardNavigation) return
+
+    switch (e.key) {
+      case 'ArrowUp':
+        e.preventDefault()
+        setActiveIndex(prev => {
+          let newIndex = prev - 1
+          while (newIndex >= 0 && options[newIndex]?.disabled) {
+            newIndex--
+          }
+          if (newIndex < 0) return prev
+          scrollToIndex(newIndex)
+          return newIndex
+        })
+        return
+      case 'ArrowDown':
+        e.preventDefault()
+        setActiveIndex(prev => {
+          let newIndex = prev + 1
+          while (newIndex < options.length && options[newIndex]?.disabled) {
+            newIndex++
+          }
+          if (newIndex >= options.length) return prev
+          scrollToIndex(newIndex)
+          return newIndex
+        })
+        return
+      case 'Home': {
+        e.preventDefault()
+        const firstEnabled = options.findIndex(o => !o.disabled)
+        if (firstEnabled !== -1) {
+          setActiveIndex(firstEnabled)
+          scrollToIndex(firstEnabled)
+        }
+        return
+      }
+      case 'End': {
+        e.preventDefault()
+        const lastEnabled = options.findLastIndex(o => !o.disabled)
+        if (lastEnabled !== -1) {
+          setActiveIndex(lastEnabled)
+          scrollToIndex(lastEnabled)
+        }
+        return
+      }
+    }
+
+    onKeyDown(columnIndex, e)
+  }, [keyboardNavigation, options, scrollToIndex, onKeyDown, columnIndex])
+
+  // Handle item click
+  const handleItemClick = useCallback((index: number) => (e: MouseEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+    if (scrollTimeoutRef.current) {
+      clearTimeout(scrollTimeoutRef.current)
+      scrollTimeoutRef.current = null
+    }
+    const option = options[index]
+    if (option && !option.disabled) {
+      setActiveIndex(index)
+      scrollToIndex(index)
+      onItemCommit(columnIndex, index)
+    }
+  }, [options, scrollToIndex, onItemCommit, columnIndex])
+
+  return (
+    <div
+      ref={wheelRef}
+      className="ws-wheel ws-column"
+      role="listbox"
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      onScroll={handleScroll}
+      aria-label={column.label}
+      aria-activedescendant={`${optionIdPrefix}-${activeIndex}`}
+      style={column.minWidth !== undefined ? { minWidth: toCssValue(column.minWidth) } : undefined}
+    >
+      <div className="ws-spacer" aria-hidden="true" />
+
+      {options.map((option, index) => {
+        const isActive = index === activeIndex
+        const isSelected = option.value === value
+
+        return (
+          <div
+            key={option.value}
+            ref={el => { itemRefs.current[index] = el }}
+            id={`${optionIdPrefix}-${index}`}
+            role="option"
+            aria-selected={isSelected}
+            aria-disabled={option.disabled}
+            className={`ws-option ${isActive ? 'ws-active' : ''} ${option.disabled ? 'ws-disabled' : ''}`}
+            onClick={handleItemClick(index)}
+          >
+            <span className="ws-option-text">{option.label}</span>
+          </div>
+        )
+      })}
+
+      <div className="ws-spacer" aria-hidden="true" />
+    </div>
+  )
+})
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+function WheelSelectGroupInner(
+  props: WheelSelectGroupProps,
+  ref: React.ForwardedRef<WheelSelectGroupRef>
+) {
+  const {
+    columns,
+    separator,
+    formatLabel,
+    onCommit,
+    placeholder = '--',
+    disabled = false,
+    required = false,
+    id,
+    className = '',
+    style,
+    theme: themeProp,
+    sizing: sizingProp,
+    behavior: behaviorProp,
+    icons,
+    a11y,
+    callbacks,
+    renderTrigger,
+    zIndex = 10001,
+  } = props
+
+  // Merge configurations with defaults
+  const theme = useMemo(
+    () => mergeDeep(defaultTheme, themeProp || {}),
+    [themeProp]
+  )
+  const sizing = useMemo(
+    () => mergeDeep(defaultSizing, sizingProp || {}),
+    [sizingProp]
+  )
+  const behavior = useMemo(
+    () => mergeDeep(defaultBehavior, behaviorProp || {}),
+    [behaviorProp]
+  )
+
+  // State
+  const [isOpen, setIsOpen] = useState(false)
+  const [initialIndices, setInitialIndices] = useState<number[]>([])
+
+  // Refs
+  const triggerRef = useRef<HTMLButtonElement>(null)
+  const rootRef = useRef<HTMLSpanElement>(null)
+  const pickerRef = useRef<HTMLDivElement>(null)
+  const selectRefs = useRef<(HTMLSelectElement | null)[]>([])
+  const columnRefs = useRef<(WheelColumnHandle | null)[]>([])
+  const activeIndicesRef = useRef<number[]>([])
+
+  // Computed values
+  const selectedOptions = useMemo(
+    () => columns.map(column => column.options.find(o => o.value === column.value)),
+    [columns]
+  )
+  const labels = useMemo(
+    () => selectedOptions.map((option, index) =>
+      option?.label ?? columns[index]?.placeholder ?? placeholder
+    ),
+    [selectedOptions, columns, placeholder]
+  )
+  const displayLabel = formatLabel ? formatLabel(labels) : labels.join(separator ?? ' ')
+
+  // Calculate spacer height based on wheel and option heights
+  const spacerHeight = useMemo(
+    () => getSpacerHeight(sizing),
+    [sizing]
+  )
+
+  // Open picker
+  const openPicker = useCallback(() => {
+    if (disabled) return
+    const indices = columns.map(column => {
+      const idx = column.options.findIndex(o => o.value === column.value)
+      if (idx !== -1) return idx
+      const fallbackIdx = column.options.findIndex(o => o.value === column.fallbackValue)
+      return fallbackIdx !== -1 ? fallbackIdx : 0
+    })
+    activeIndicesRef.current = [...indices]
+    setInitialIndices(indices)
+    setIsOpen(true)
+    callbacks?.onOpen?.()
+  }, [disabled, columns, callbacks])
+
+  // Close picker
+  const closePicker = useCallback(() => {
+    setIsOpen(false)
+    callbacks?.onClose?.()
+  }, [callbacks])
+
+  // Commit a single column
+  const commitColumn = useCallback((columnIndex: number, index: number) => {
+    const column = columns[columnIndex]
+    const option = column?.options[index]
+    if (!column || !option || option.disabled) return
+    if (option.value === column.value) return
+
+    column.onChange(option.value)
+    callbacks?.onChange?.(columnIndex, option.value, option)
+
+    const select = selectRefs.current[columnIndex]
+    if (select) {
+      select.value = option.value
+    }
+  }, [columns, callbacks])
+
+  // Commit the active item of every column
+  const commitAll = useCallback(() => {
+    if (onCommit) {
+      // Disabled highlights keep the column's value
+      const options = columns.map((column, columnIndex) => {
+        const option = column.options[activeIndicesRef.current[columnIndex] ?? 0]
+        return option && !option.disabled ? option : undefined
+      })
+      const values = options.map((option, columnIndex) => option?.value ?? columns[columnIndex]?.value ?? '')
+      if (values.some((value, columnIndex) => value !== columns[columnIndex]?.value)) {
+        onCommit(values)
+        options.forEach((option, columnIndex) => {
+          if (!option || option.value === columns[columnIndex]?.value) return
+          callbacks?.onChange?.(columnIndex, option.value, option)
+          const select = selectRefs.current[columnIndex]
+          if (select) {
+            select.value = option.value
+          }
+        })
+      }
+    } else {
+      columns.forEach((_, columnIndex) => {
+        commitColumn(columnIndex, activeIndicesRef.current[columnIndex] ?? 0)
+      })
+    }
+
+    if (behavior.closeOnSelect) {
+      closePicker()
+    }
+  }, [columns, onCommit, commitColumn, callbacks, behavior.closeOnSelect, closePicker])
+
+  // Move focus between columns
+  const focusColumn = useCallback((columnIndex: number) => {
+    if (columnIndex < 0 || columnIndex >= columns.length) return
+    columnRefs.current[columnIndex]?.focus()
+  }, [columns.length])
+
+  // Focus the first column when picker opens
+  useEffect(() => {
+    if (isOpen) {
+      focusColumn(0)
+    }
+  }, [isOpen, focusColumn])
+
+  // Group-level keyboard handling (column-level keys are handled by each column)
+  const handleColumnKeyDown = useCallback((columnIndex: number, e: KeyboardEvent) => {
+    callbacks?.onKeyDown?.(e)
+
+    switch (e.key) {
+      case 'Escape':
+        if (behavior.closeOnEscape) {
+          e.preventDefault()
+          closePicker()
+        }
+        break
+      case 'ArrowLeft':
+        e.preventDefault()
+        focusColumn(columnIndex - 1)
+        break
+      case 'ArrowRight':
+        e.preventDefault()
+        focusColumn(columnIndex + 1)
+        break
+      case 'Enter':
+      case ' ':
+        e.preventDefault()
+        commitAll()
+        break
+    }
+  }, [behavior.closeOnEscape, closePicker, focusColumn, commitAll, callbacks])
+
+  // Handle backdrop click
+  const handleBackdropClick = useCallback((e: MouseEvent) => {
+    if (behavior.closeOnOutsideClick && e.target === e.currentTarget) {
+      closePicker()
+    }
+  }, [behavior.closeOnOutsideClick, closePicker])
+
+  // Imperative handle
+  useImperativeHandle(ref, () => ({
+    open: openPicker,
+    close: closePicker,
+    toggle: () => isOpen ? closePicker() : openPicker(),
+    focus: () => triggerRef.current?.focus(),
+    isOpen: () => isOpen,
+    focusColumn,
+    scrollToIndex: (columnIndex: number, index: number) => {
+      columnRefs.current[columnIndex]?.scrollToIndex(index)
+    },
+    getNativeSelects: () => columns.map((_, index) => selectRefs.current[index] ?? null),
+  }), [isOpen, openPicker, closePicker, focusColumn, columns])
+
+  // Generate CSS custom properties
+  const cssVariables = useMemo(
+    () => buildCssVariables(theme, sizing, spacerHeight, zIndex),
+    [theme, sizing, spacerHeight, zIndex]
+  )
+
+  // Keep the picker on-screen next to the trigger (the root with a custom trigger)
+  const getAnchor = useCallback(() => triggerRef.current ?? rootRef.current, [])
+  const pickerPosition = usePickerPosition(
+    isOpen,
+    getAnchor,
+    pickerRef,
+    behavior.placement,
+    behavior.collisionPadding
+  )
+
+  // Trap focus in the open picker and return it to the trigger (or the
+  // element focused before opening, with a custom trigger) on close
+  useModalDialog(isOpen, pickerRef, behavior.focusTriggerOnClose ? triggerRef : null)
+
+  // Determine color scheme class
+  const colorSchemeClass = getColorSchemeClass(theme.colorScheme)
+
+  // 3D cylinder appearance
+  const isCylinder = isCylinderAppearance(theme)
+
+  // Ids of the dialog and options are unique per instance without an `id`
+  const instanceId = useId()
+  const idPrefix = `ws-group-${id ?? instanceId}`
+  const dialogId = `${idPrefix}-dialog`
+
+  // Render the picker portal
+  const renderPicker = () => {
+    if (!isOpen) return null
+
+    const portalTarget = behavior.portalTarget ?? document.body
+
+    return createPortal(
+      <div
+        className="ws-backdrop"
+        onClick={handleBackdropClick}
+        role="presentation"
+        style={cssVariables}
+      >
+        <div
+          ref={pickerRef}
+          id={dialogId}
+          className={`ws-picker ws-group-picker ${isCylinder ? 'ws-cylinder' : ''}`}
+          style={pickerPosition ?? { visibility: 'hidden' }}
+          role="dialog"
+          aria-modal="true"
+          aria-label={a11y?.pickerLabel ?? 'Select options'}
+          aria-describedby={a11y?.describedBy}
+        >
+          {/* Shared center highlight spanning all columns */}
+          <div className="ws-center-highlight" aria-hidden="true">
+            {!icons?.hideArrow && (
+              icons?.arrow ?? <DefaultArrowIcon size={sizing.iconSize} className="ws-arrow" />
+            )}
+          </div>
+
+          <div className="ws-columns">
+            {columns.map((column, columnIndex) => {
+              const columnSeparator = column.separator ?? separator
+              return (
+                <Fragment key={column.key ?? columnIndex}>
+                  {columnIndex > 0 && columnSeparator && (
+                    <div className="ws-column-separator" aria-hidden="true">
+                      {columnSeparator}
+                    </div>
+                  )}
+                  <WheelColumn
+                    ref={handle => { columnRefs.current[columnIndex] = handle }}
+                    column={column}
+                    columnIndex={columnIndex}
+                    optionIdPrefix={`${idPrefix}-${columnIndex}`}
+                    initialIndex={initialIndices[columnIndex] ?? 0}
+                    scrollDebounceMs={behavior.scrollDebounceMs}
+                    keyboardNavigation={behavior.keyboardNavigation}
+                    cylinder={isCylinder ? theme.cylinder : null}
+                    activeIndicesRef={activeIndicesRef}
+                    callbacks={callbacks}
+                    onKeyDown={handleColumnKeyDown}
+                    onItemCommit={commitColumn}
+                  />
+                </Fragment>
+              )
+            })}
+          </div>
+        </div>
+      </div>,
+      portalTarget
+    )
+  }
+
+  return (
+    <span
+      ref={rootRef}
+      className={`ws-root ws-group ${colorSchemeClass} ${className}`}
+      style={{ ...cssVariables, ...style }}
+    >
+      {/* Hidden native selects for form submission, one per column */}
+      {columns.map((column, columnIndex) => {
+        const selectedOption = selectedOptions[columnIndex]
+        return (
+          <select
+            key={column.key ?? columnIndex}
+            ref={el => { selectRefs.current[columnIndex] = el }}
+            name={column.name}
+            id={id ? `${id}-native-${columnIndex}` : undefined}
+            value={column.value}
+            onChange={e => column.onChange(e.target.value)}
+            className="ws-native-select"
+            tabIndex={-1}
+            aria-hidden="true"
+            required={required}
+            disabled={disabled}
+          >
+            {!selectedOption && <option value="">{column.placeholder ?? placeholder}</option>}
+            {column.options.map(option => (
+              <option
+                key={option.value}
+                value={option.value}
+                disabled={option.disabled}
+              >
+                {option.label}
+              </option>
+            ))}
+          </select>
+        )
+      })}
+
+      {/* Trigger button */}
+      {renderTrigger ? (
+        renderTrigger({
+          values: columns.map(column => column.value),
+          labels,
+          label: displayLabel,
+          isOpen,
+          disabled,
+          onClick: openPicker,
+        })
+      ) : (
+        <button
+          ref={triggerRef}
+          type="button"
+          id={id}
+          className={`ws-trigger ${isOpen ? 'ws-open' : ''}`}
+          onClick={openPicker}
+          disabled={disabled}
+          aria-haspopup="dialog"
+          aria-expanded={isOpen}
+          aria-controls={isOpen ? dialogId : undefined}
+          aria-label={a11y?.triggerLabel}
+          aria-describedby={a11y?.describedBy}
+          style={{ visibility: isOpen && behavior.placement === 'overlay-trigger' ? 'hidden' : 'visible' }}
+        >
+          <span className="ws-trigger-text">{displayLabel}</span>
+          {!icons?.hideChevron && (
+            icons?.chevron ?? <DefaultChevronIcon size={sizing.iconSize} className="ws-chevron" />
+          )}
+        </button>
+      )}
+
+      {/* Picker portal */}
+      {renderPicker()}
+    </span>
+  )
+}
+
+// Forward ref
+export const WheelSelectGroup = forwardRef(WheelSelectGroupInner)
+
+export default WheelSelectGroup
@@ -0,0 +1,51 @@
+/**
+ * Internal date helpers shared by the date and time wheel pickers.
+ *
+ * All calculations use local time - the pickers present calendar dates and
+ * wall-clock times, not instants.
+ */
+
+/** Values accepted by the date and time pickers */
+export type DateLike = Date | string
+
+export const pad = (value: number, length: number = 2): string =>
+  String(value).padStart(length, '0')
+
+/**
+ * Parse a date-like value into a Date.
+ *
+ * Date-only ISO strings (YYYY-MM-DD) are interpreted as local dates rather
+ * than UTC midnight, so they never shift by a day across time zones.
+ */
+export const parseDate = (value: DateLike | null | undefined): Date | null => {
+  if (value === null || value === undefined || value === '') return null
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : new Date(value.getTime())
+  }
+
+  const dateOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value)
+  if (dateOnly) {
+    return new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]))
+  }
+
+  const parsed = new Date(value)
+  return Number.isNaN(parsed.getTime()) ? null : parsed
+}
+
+export const daysInMonth = (year: number, month: number): number =>
+  new Date(year, month + 1, 0).getDate()
+
+/** Format a date as YYYY-MM-DD */
+export const toIsoDate = (date: Date): string =>
+  `${pad(date.getFullYear(), 4)}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+
+/** Format a time as HH:mm */
+export const toIsoTime = (date: Date): string =>
+  `${pad(date.getHours())}:${pad(date.getMinutes())}`
+
+/** Strip the time portion of a date */
+export const startOfDay = (date: Date): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate())
+
+export const clamp = (value: number, min: number, max: number): number =>
+  Math.min(Math.max(value, min), max)
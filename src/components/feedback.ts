@@ -0,0 +1,142 @@
+/**
+ * Tick feedback - the haptic and audible click of a physical wheel as each
+ * option passes the center band. Providers are passed to
+ * `behavior.feedback`; all of them go quiet while feedback is muted or the
+ * user prefers reduced motion.
+ */
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+/**
+ * A feedback provider, called whenever an option crosses the center band
+ */
+export interface WheelSelectFeedback {
+  /** Play one tick */
+  tick: () => void
+}
+
+/**
+ * Haptic feedback options
+ */
+export interface HapticFeedbackOptions {
+  /** Vibration length in ms (default: 8) */
+  duration?: number
+  /** Minimum time in ms between two ticks (default: 30) */
+  minIntervalMs?: number
+}
+
+/**
+ * Audio feedback options
+ */
+export interface AudioFeedbackOptions {
+  /** Volume from 0 to 1 (default: 0.15) */
+  volume?: number
+  /** Pitch of the click in Hz (default: 1800) */
+  frequency?: number
+  /** Length of the click in ms (default: 15) */
+  duration?: number
+  /** Minimum time in ms between two ticks (default: 30) */
+  minIntervalMs?: number
+}
+
+// ============================================================================
+// Mute & Reduced Motion
+// ============================================================================
+
+let isMuted = false
+let reducedMotionQuery: MediaQueryList | null = null
+
+/**
+ * Mute or unmute the built-in feedback of every wheel on the page.
+ * `callbacks.onTick` keeps firing while muted.
+ */
+export const setFeedbackMuted = (muted: boolean): void => {
+  isMuted = muted
+}
+
+/**
+ * Whether the built-in feedback is muted
+ */
+export const isFeedbackMuted = (): boolean => isMuted
+
+/**
+ * Whether feedback may play - not muted, and the user does not prefer
+ * reduced motion (checked on every tick, so a changed setting applies at once)
+ */
+const canPlay = (): boolean => {
+  if (isMuted || typeof window === 'undefined') return false
+  reducedMotionQuery ??= window.matchMedia?.('(prefers-reduced-motion: reduce)') ?? null
+  return reducedMotionQuery?.matches !== true
+}
+
+/**
+ * Gate that opens at most once every `minIntervalMs`
+ */
+const createThrottle = (minIntervalMs: number) => {
+  let lastTime = -Infinity
+  return (): boolean => {
+    const now = performance.now()
+    if (now - lastTime < minIntervalMs) return false
+    lastTime = now
+    return true
+  }
+}
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+/**
+ * Haptic ticks through `navigator.vibrate`. Does nothing where vibration is
+ * not supported (e.g. iOS Safari and desktop browsers).
+ */
+export const createHapticFeedback = (options: HapticFeedbackOptions = {}): WheelSelectFeedback => {
+  const { duration = 8, minIntervalMs = 30 } = options
+  const isDue = createThrottle(minIntervalMs)
+
+  return {
+    tick: () => {
+      if (typeof navigator === 'undefined' || !('vibrate' in navigator)) return
+      if (!canPlay() || !isDue()) return
+      navigator.vibrate(duration)
+    },
+  }
+}
+
+/**
+ * Audible ticks - a short click synthesized with WebAudio, so no sound file
+ * is loaded. Browsers only start audio after a user gesture, so the first
+ * ticks of a scroll may be silent.
+ */
+export const createAudioFeedback = (options: AudioFeedbackOptions = {}): WheelSelectFeedback => {
+  const { volume = 0.15, frequency = 1800, duration = 15, minIntervalMs = 30 } = options
+  const isDue = createThrottle(minIntervalMs)
+  let context: AudioContext | null = null
+
+  return {
+    tick: () => {
+      if (typeof AudioContext === 'undefined') return
+      if (!canPlay() || !isDue()) return
+
+      context ??= new AudioContext()
+      if (context.state === 'suspended') {
+        context.resume().catch(() => {})
+      }
+
+      // A square wave burst with an exponential decay sounds like a detent
+      const start = context.currentTime
+      const end = start + duration / 1000
+      const oscillator = context.createOscillator()
+      const gain = context.createGain()
+      oscillator.type = 'square'
+      oscillator.frequency.value = frequency
+      gain.gain.setValueAtTime(Math.min(Math.max(volume, 0), 1), start)
+      gain.gain.exponentialRampToValueAtTime(0.0001, end)
+      oscillator.connect(gain).connect(context.destination)
+      oscillator.start(start)
+      oscillator.stop(end)
+    },
+  }
+}
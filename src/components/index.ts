@@ -24,21 +24,76 @@
 // Main component export
 export { WheelSelect, default } from './WheelSelect'
 
+// Multi-column group
+export { WheelSelectGroup } from './WheelSelectGroup'
+
+// Date & time pickers
+export { DateWheelPicker } from './DateWheelPicker'
+export { TimeWheelPicker } from './TimeWheelPicker'
+
+// Numeric ranges
+export { NumberWheel } from './NumberWheel'
+
+// Headless hook
+export { useWheelSelect } from './useWheelSelect'
+
+// Tick feedback
+export {
+  createHapticFeedback,
+  createAudioFeedback,
+  setFeedbackMuted,
+  isFeedbackMuted,
+} from './feedback'
+
 // Legacy component (deprecated - use WheelSelect instead)
 export { BaseSelectCompat } from './BaseSelectCompat'
 
 // Type exports
 export type {
   WheelSelectProps,
+  WheelSelectBaseProps,
+  WheelSelectSingleProps,
+  WheelSelectMultipleProps,
+  WheelSelectTriggerProps,
   WheelSelectOption,
+  WheelSelectPage,
+  WheelSelectCursor,
+  WheelSelectLoadOptions,
   WheelSelectRef,
   WheelSelectTheme,
   WheelSelectSizing,
   WheelSelectBehavior,
+  WheelSelectPlacement,
+  WheelSelectKeyAction,
+  WheelSelectKeymap,
+  WheelSelectOpenChangeReason,
   WheelSelectIcons,
   WheelSelectA11y,
   WheelSelectCallbacks,
 } from './WheelSelect'
 
+export type {
+  WheelSelectGroupProps,
+  WheelSelectGroupRef,
+  WheelSelectGroupCallbacks,
+  WheelSelectColumn,
+} from './WheelSelectGroup'
+
+export type { DateWheelPickerProps } from './DateWheelPicker'
+export type { TimeWheelPickerProps } from './TimeWheelPicker'
+export type { NumberWheelProps } from './NumberWheel'
+
+export type {
+  WheelSelectFeedback,
+  HapticFeedbackOptions,
+  AudioFeedbackOptions,
+} from './feedback'
+
+export type {
+  UseWheelSelectReturn,
+  WheelSelectRowState,
+  WheelSelectElementProps,
+} from './useWheelSelect'
+
 // Legacy types (deprecated)
 export type { BaseSelectCompatProps, SelectOption } from './BaseSelectCompat'
@@ -0,0 +1,858 @@
+import {
+  useState,
+  useRef,
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  type CSSProperties,
+  type ReactNode,
+  type RefObject,
+  type Ref,
+} from 'react'
+import type {
+  WheelSelectOption,
+  WheelSelectTheme,
+  WheelSelectSizing,
+  WheelSelectBehavior,
+  WheelSelectPlacement,
+  WheelSelectKeyAction,
+  WheelSelectKeymap,
+} from './WheelSelect'
+
+/**
+ * Internal building blocks shared by the wheel components.
+ *
+ * Nothing in this module is part of the public API - it is not re-exported
+ * from the package entry point.
+ */
+
+// ============================================================================
+// Default Values
+// ============================================================================
+
+export const defaultTheme: Required<WheelSelectTheme> = {
+  colorScheme: 'dark',
+  colors: {
+    text: 'inherit',
+    textMuted: 'inherit',
+    activeBg: 'rgba(255, 255, 255, 0.12)',
+    hoverBg: 'rgba(255, 255, 255, 0.12)',
+    backdropBg: 'rgba(0, 0, 0, 0.5)',
+    focusRing: 'rgba(255, 255, 255, 0.5)',
+    error: '#ff453a',
+  },
+  borderRadius: 12,
+  font: {
+    family: 'inherit',
+    size: 28,
+    weight: 500,
+    triggerSize: 'inherit',
+  },
+  animation: {
+    duration: 200,
+    easing: 'ease',
+    disabled: false,
+  },
+  spacing: {
+    triggerGap: 16,
+    triggerPadding: '8px 16px',
+    optionGap: 16,
+    optionPadding: '0 20px',
+  },
+  appearance: 'flat',
+  cylinder: {
+    curvature: 0.9,
+    visibleItems: 5,
+    perspective: 800,
+  },
+}
+
+export const defaultSizing: Required<WheelSelectSizing> = {
+  wheelHeight: 320,
+  wheelMinWidth: 220,
+  optionHeight: 56,
+  iconSize: 20,
+}
+
+export const defaultBehavior: Required<WheelSelectBehavior> = {
+  closeOnOutsideClick: true,
+  closeOnEscape: true,
+  closeOnSelect: true,
+  scrollDebounceMs: 50,
+  keyboardNavigation: true,
+  keymap: {
+    next: ['ArrowDown'],
+    previous: ['ArrowUp'],
+    first: ['Home'],
+    last: ['End'],
+    pageUp: ['PageUp'],
+    pageDown: ['PageDown'],
+    commit: ['Enter', 'Space'],
+    cancel: ['Escape'],
+  },
+  portalTarget: null,
+  focusTriggerOnClose: true,
+  commitOn: 'click',
+  dragToScroll: true,
+  wheelStep: 'native',
+  placement: 'overlay-trigger',
+  collisionPadding: 8,
+  presentation: 'popover',
+  sheetBreakpoint: 640,
+  virtualize: 100,
+  overscan: 5,
+  loop: false,
+  typeAhead: true,
+  typeAheadTimeoutMs: 500,
+  loadDebounceMs: 250,
+  feedback: [],
+}
+
+// ============================================================================
+// Icon Components
+// ============================================================================
+
+interface IconProps {
+  size?: number
+  className?: string
+}
+
+export const DefaultChevronIcon = ({ size = 20, className }: IconProps) => (
+  <svg
+    width={size}
+    height={size}
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+    className={className}
+    aria-hidden="true"
+  >
+    <polyline points="8 9 12 5 16 9" />
+    <polyline points="8 15 12 19 16 15" />
+  </svg>
+)
+
+export const DefaultArrowIcon = ({ size = 20, className }: IconProps) => (
+  <svg
+    width={size}
+    height={size}
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+    className={className}
+    aria-hidden="true"
+  >
+    <line x1="19" y1="12" x2="5" y2="12" />
+    <polyline points="12 19 5 12 12 5" />
+  </svg>
+)
+
+export const DefaultCheckIcon = ({ size = 20, className }: IconProps) => (
+  <svg
+    width={size}
+    height={size}
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+    className={className}
+    aria-hidden="true"
+  >
+    <polyline points="20 6 9 17 4 12" />
+  </svg>
+)
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+export const toCssValue = (value: number | string | undefined, defaultValue: string = '0'): string => {
+  if (value === undefined) return defaultValue
+  return typeof value === 'number' ? `${value}px` : value
+}
+
+export const mergeDeep = <T extends Record<string, unknown>>(target: T, source: Partial<T>): T => {
+  const result = { ...target }
+  for (const key in source) {
+    if (source[key] !== undefined) {
+      if (
+        typeof source[key] === 'object' &&
+        source[key] !== null &&
+        !Array.isArray(source[key])
+      ) {
+        result[key] = mergeDeep(
+          target[key] as Record<string, unknown>,
+          source[key] as Record<string, unknown>
+        ) as T[Extract<keyof T, string>]
+      } else {
+        result[key] = source[key] as T[Extract<keyof T, string>]
+      }
+    }
+  }
+  return result
+}
+
+/**
+ * Point several refs at one element
+ */
+const composeRefs = <E,>(...refs: Ref<E>[]) => (node: E | null) => {
+  for (const ref of refs) {
+    if (typeof ref === 'function') {
+      ref(node)
+    } else if (ref) {
+      ref.current = node
+    }
+  }
+}
+
+/**
+ * Merge consumer props into the props of a prop getter. Consumer values win,
+ * styles are combined, and where both pass an event handler the consumer's
+ * runs first - preventing the default skips the getter's. Refs are composed,
+ * as the getter's element must stay reachable.
+ */
+export const mergeProps = <P extends object>(own: P, extra?: object): P => {
+  if (!extra) return own
+  const merged = { ...own, ...extra } as Record<string, unknown>
+  for (const [key, ownValue] of Object.entries(own)) {
+    const extraValue = (extra as Record<string, unknown>)[key]
+    if (key === 'style' && ownValue && extraValue) {
+      merged[key] = { ...ownValue, ...extraValue }
+    } else if (key === 'ref' && ownValue && extraValue) {
+      merged[key] = composeRefs(ownValue as Ref<unknown>, extraValue as Ref<unknown>)
+    } else if (/^on[A-Z]/.test(key) && typeof ownValue === 'function' && typeof extraValue === 'function') {
+      merged[key] = (event: { defaultPrevented?: boolean }) => {
+        extraValue(event)
+        if (!event.defaultPrevented) ownValue(event)
+      }
+    }
+  }
+  return merged as P
+}
+
+/**
+ * Wrap an index into the range [0, length)
+ */
+export const wrapIndex = (index: number, length: number): number =>
+  ((index % length) + length) % length
+
+const KEY_BINDING_PATTERN = /^((?:(?:Ctrl|Alt|Shift|Meta)\+)*)(.+)$/
+
+/**
+ * Whether a keyboard event matches a key binding such as 'Ctrl+Shift+ArrowDown'.
+ * Modifiers must match exactly, except that Shift may be left out for
+ * characters, which already carry it ('?' is Shift+/ on many layouts).
+ */
+export const matchesKeyBinding = (
+  e: { key: string; ctrlKey: boolean; altKey: boolean; shiftKey: boolean; metaKey: boolean },
+  binding: string
+): boolean => {
+  const match = KEY_BINDING_PATTERN.exec(binding)
+  if (!match) return false
+  const modifiers = match[1] ?? ''
+  const key = match[2] === 'Space' ? ' ' : match[2]
+  const hasShift = modifiers.includes('Shift+')
+  if (
+    e.ctrlKey !== modifiers.includes('Ctrl+') ||
+    e.altKey !== modifiers.includes('Alt+') ||
+    e.metaKey !== modifiers.includes('Meta+')
+  ) return false
+  if (key?.length === 1) {
+    return hasShift ? e.shiftKey && e.key.toLowerCase() === key.toLowerCase() : e.key === key
+  }
+  return e.shiftKey === hasShift && e.key === key
+}
+
+/**
+ * Action a keyboard event is bound to in a keymap (null if none)
+ */
+export const getKeyAction = (
+  e: Parameters<typeof matchesKeyBinding>[0],
+  keymap: WheelSelectKeymap
+): WheelSelectKeyAction | null => {
+  for (const [action, bindings] of Object.entries(keymap) as [WheelSelectKeyAction, string[] | undefined][]) {
+    if (bindings?.some(binding => matchesKeyBinding(e, binding))) return action
+  }
+  return null
+}
+
+const typeAheadCollator = new Intl.Collator(undefined, { sensitivity: 'base', usage: 'search' })
+
+/**
+ * Whether a label starts with a typed prefix, ignoring case and accents
+ */
+export const labelStartsWith = (label: string, prefix: string): boolean =>
+  typeAheadCollator.compare(label.slice(0, prefix.length), prefix) === 0
+
+/**
+ * Find the next enabled option matching type-ahead input, like a native select.
+ *
+ * Repeating a single character ("aaa") cycles through the options starting
+ * with it; a longer query keeps the current option if it still matches.
+ * Returns -1 when nothing matches.
+ */
+export const findTypeAheadMatch = (
+  options: { label: string; disabled?: boolean }[],
+  query: string,
+  currentIndex: number
+): number => {
+  if (!query || options.length === 0) return -1
+
+  const chars = Array.from(query)
+  const isRepeatedChar = chars.every(char => char === chars[0])
+  const prefix = isRepeatedChar ? chars[0]! : query
+  const start = isRepeatedChar ? currentIndex + 1 : currentIndex
+
+  for (let offset = 0; offset < options.length; offset++) {
+    const index = wrapIndex(start + offset, options.length)
+    const option = options[index]
+    if (option && !option.disabled && labelStartsWith(option.label, prefix)) {
+      return index
+    }
+  }
+  return -1
+}
+
+/**
+ * Split options into runs of adjacent options that share a group
+ */
+export const groupAdjacent = <O extends { group?: string }>(
+  options: O[]
+): { group: string | undefined; options: O[] }[] => {
+  const runs: { group: string | undefined; options: O[] }[] = []
+  options.forEach(option => {
+    const last = runs[runs.length - 1]
+    if (last && last.group === option.group) {
+      last.options.push(option)
+    } else {
+      runs.push({ group: option.group, options: [option] })
+    }
+  })
+  return runs
+}
+
+/**
+ * Fold a string for searching - lowercase with accents removed.
+ * Returns the folded string and, for each folded character, its index in the input.
+ */
+const foldForSearch = (text: string): { folded: string; sourceIndex: number[] } => {
+  let folded = ''
+  const sourceIndex: number[] = []
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charAt(i).normalize('NFD').replace(/\p{M}/gu, '').toLowerCase()
+    for (let j = 0; j < char.length; j++) {
+      folded += char.charAt(j)
+      sourceIndex.push(i)
+    }
+  }
+  return { folded, sourceIndex }
+}
+
+/**
+ * Fuzzy-match a search query against a label, ignoring case and accents.
+ *
+ * A contiguous substring match is preferred; otherwise the query characters
+ * must appear in order ("nzl" matches "New Zealand"). Returns the matched
+ * [start, end) ranges in the label, or null when it does not match.
+ */
+export const getFuzzyMatch = (label: string, query: string): [number, number][] | null => {
+  const { folded: needle } = foldForSearch(query.trim())
+  if (!needle) return []
+
+  const { folded: haystack, sourceIndex } = foldForSearch(label)
+  const toRange = (from: number, to: number): [number, number] =>
+    [sourceIndex[from]!, sourceIndex[to - 1]! + 1]
+
+  const substringStart = haystack.indexOf(needle)
+  if (substringStart !== -1) {
+    return [toRange(substringStart, substringStart + needle.length)]
+  }
+
+  const ranges: [number, number][] = []
+  let position = 0
+  for (let i = 0; i < needle.length; i++) {
+    const found = haystack.indexOf(needle.charAt(i), position)
+    if (found === -1) return null
+    const last = ranges[ranges.length - 1]
+    const range = toRange(found, found + 1)
+    if (last && last[1] === range[0]) {
+      last[1] = range[1]
+    } else {
+      ranges.push(range)
+    }
+    position = found + 1
+  }
+  return ranges
+}
+
+/**
+ * Default option filter for searchable wheels
+ */
+export const fuzzyFilterOption = (option: { label: string }, query: string): boolean =>
+  getFuzzyMatch(option.label, query) !== null
+
+/**
+ * Render a label with the parts matching a search query wrapped in <mark>
+ */
+export const highlightMatches = (label: string, query: string): ReactNode => {
+  const ranges = query ? getFuzzyMatch(label, query) : null
+  if (!ranges || ranges.length === 0) return label
+
+  const parts: ReactNode[] = []
+  let position = 0
+  ranges.forEach(([start, end]) => {
+    if (start > position) parts.push(label.slice(position, start))
+    parts.push(<mark key={start} className="ws-option-match">{label.slice(start, end)}</mark>)
+    position = end
+  })
+  if (position < label.length) parts.push(label.slice(position))
+  return parts
+}
+
+/**
+ * Find the item whose center is closest to the vertical center of the wheel,
+ * or of where the wheel would be after scrolling `offset` px further
+ */
+export const getClosestItemIndex = (
+  wheel: HTMLElement,
+  items: (HTMLElement | null)[],
+  offset: number = 0
+): number => {
+  const wheelRect = wheel.getBoundingClientRect()
+  const wheelCenter = wheelRect.top + wheelRect.height / 2 + offset
+
+  let closestIndex = 0
+  let closestDistance = Infinity
+
+  items.forEach((item, index) => {
+    if (!item) return
+    const itemRect = item.getBoundingClientRect()
+    const itemCenter = itemRect.top + itemRect.height / 2
+    const distance = Math.abs(itemCenter - wheelCenter)
+
+    if (distance < closestDistance) {
+      closestDistance = distance
+      closestIndex = index
+    }
+  })
+
+  return closestIndex
+}
+
+type ResolvedTheme = Required<WheelSelectTheme>
+
+/**
+ * Whether the 3D cylinder appearance is active. It degrades to the flat
+ * style when animations are disabled or the user prefers reduced motion.
+ */
+export const isCylinderAppearance = (theme: ResolvedTheme): boolean => {
+  if (theme.appearance !== 'cylinder' || theme.animation.disabled) return false
+  if (typeof window !== 'undefined' && window.matchMedia?.('(prefers-reduced-motion: reduce)').matches) {
+    return false
+  }
+  return true
+}
+
+/**
+ * Rotate, scale and fade every mounted item according to its distance from
+ * the center of the wheel, projecting the flat list onto a cylinder.
+ *
+ * Items keep their layout position; the transform moves each one to where it
+ * would appear on a drum whose circumference advances one item height per
+ * step, so scroll snapping and hit testing still line up at the center.
+ */
+export const applyCylinderTransforms = (
+  wheel: HTMLElement,
+  items: (HTMLElement | null)[],
+  cylinder: ResolvedTheme['cylinder']
+): void => {
+  const curvature = Math.min(Math.max(cylinder.curvature ?? 0.9, 0), 1)
+  const halfVisible = Math.max(1, (cylinder.visibleItems ?? 5) / 2)
+  const perspective = cylinder.perspective ?? 800
+  const stepAngle = (Math.PI / 2) * curvature / halfVisible
+  const center = wheel.scrollTop + wheel.clientHeight / 2
+
+  items.forEach(item => {
+    if (!item) return
+    // Virtualized items are positioned inside a list offset by the top spacer
+    const parent = item.offsetParent as HTMLElement | null
+    const top = item.offsetTop + (parent && parent !== wheel ? parent.offsetTop : 0)
+    const height = item.offsetHeight || 1
+    const distance = (top + height / 2 - center) / height
+
+    if (stepAngle > 0) {
+      const angle = Math.min(Math.max(distance * stepAngle, -Math.PI / 2), Math.PI / 2)
+      const radius = height / stepAngle
+      const offsetY = radius * Math.sin(angle) - distance * height
+      const offsetZ = radius * (Math.cos(angle) - 1)
+      item.style.transform =
+        `perspective(${perspective}px) translateY(${offsetY}px) translateZ(${offsetZ}px) rotateX(${-angle}rad)`
+    } else {
+      item.style.transform = ''
+    }
+    const fade = Math.max(0, 1 - Math.abs(distance) / (halfVisible + 0.5))
+    item.style.opacity = String(item.getAttribute('aria-disabled') === 'true' ? fade * 0.4 : fade)
+  })
+}
+type ResolvedSizing = Required<WheelSelectSizing>
+
+/**
+ * Height of the top/bottom spacers that allow the first and last
+ * items to be scrolled into the center of the wheel
+ */
+export const getSpacerHeight = (sizing: ResolvedSizing): number => {
+  const wheelH = typeof sizing.wheelHeight === 'number' ? sizing.wheelHeight : 320
+  const optionH = typeof sizing.optionHeight === 'number' ? sizing.optionHeight : 56
+  return (wheelH / 2) - (optionH / 2)
+}
+
+/**
+ * Generate the CSS custom properties for a resolved theme and sizing
+ */
+export const buildCssVariables = (
+  theme: ResolvedTheme,
+  sizing: ResolvedSizing,
+  spacerHeight: number,
+  zIndex: number
+): CSSProperties => ({
+  '--ws-color-text': theme.colors.text,
+  '--ws-color-text-muted': theme.colors.textMuted,
+  '--ws-color-active-bg': theme.colors.activeBg,
+  '--ws-color-hover-bg': theme.colors.hoverBg,
+  '--ws-color-backdrop-bg': theme.colors.backdropBg,
+  '--ws-color-focus-ring': theme.colors.focusRing,
+  '--ws-color-error': theme.colors.error,
+  '--ws-border-radius': toCssValue(theme.borderRadius),
+  '--ws-font-family': theme.font.family,
+  '--ws-font-size': toCssValue(theme.font.size),
+  '--ws-font-weight': String(theme.font.weight),
+  '--ws-font-size-trigger': toCssValue(theme.font.triggerSize),
+  '--ws-animation-duration': theme.animation.disabled ? '0ms' : `${theme.animation.duration}ms`,
+  '--ws-animation-easing': theme.animation.easing,
+  '--ws-trigger-gap': toCssValue(theme.spacing.triggerGap),
+  '--ws-trigger-padding': theme.spacing.triggerPadding,
+  '--ws-option-gap': toCssValue(theme.spacing.optionGap),
+  '--ws-option-padding': theme.spacing.optionPadding,
+  '--ws-wheel-height': toCssValue(sizing.wheelHeight),
+  '--ws-wheel-min-width': toCssValue(sizing.wheelMinWidth),
+  '--ws-option-height': toCssValue(sizing.optionHeight),
+  '--ws-icon-size': `${sizing.iconSize}px`,
+  '--ws-spacer-height': `${spacerHeight}px`,
+  '--ws-z-index': String(zIndex),
+} as CSSProperties)
+
+/**
+ * Determine the color scheme class for the root element
+ */
+export const getColorSchemeClass = (colorScheme: ResolvedTheme['colorScheme']): string =>
+  colorScheme === 'auto'
+    ? ''
+    : colorScheme === 'light'
+      ? 'ws-light'
+      : 'ws-dark'
+
+// ============================================================================
+// Lazy Option Lists
+// ============================================================================
+
+/** Value lookup of a lazy option list, also marking the list as lazy */
+const LAZY_INDEX_OF = Symbol('ws-lazy-index-of')
+
+type LazyOptions = { [LAZY_INDEX_OF]?: (value: string) => number }
+
+const ARRAY_INDEX = /^(?:0|[1-9]\d*)$/
+
+/**
+ * A read-only option array whose entries are created from their index on
+ * access, so long ranges never exist in memory as a whole. Array methods
+ * work as usual; `indexOfValue` lets value lookups skip the scan.
+ */
+export const createLazyOptions = <T extends string>(
+  length: number,
+  getOption: (index: number) => WheelSelectOption<T>,
+  indexOfValue: (value: string) => number
+): WheelSelectOption<T>[] =>
+  new Proxy([] as WheelSelectOption<T>[], {
+    get: (target, key, receiver) => {
+      if (key === 'length') return length
+      if (key === LAZY_INDEX_OF) return indexOfValue
+      if (typeof key === 'string' && ARRAY_INDEX.test(key)) {
+        const index = Number(key)
+        return index < length ? getOption(index) : undefined
+      }
+      return Reflect.get(target, key, receiver)
+    },
+    has: (target, key) => {
+      if (key === LAZY_INDEX_OF) return true
+      if (typeof key === 'string' && ARRAY_INDEX.test(key)) return Number(key) < length
+      return Reflect.has(target, key)
+    },
+  })
+
+/**
+ * Whether an option list was created by createLazyOptions. Lazy lists should
+ * not be rendered as a whole.
+ */
+export const isLazyOptions = (options: readonly unknown[]): boolean =>
+  LAZY_INDEX_OF in options
+
+/**
+ * Index of the option with a value, without scanning lazy lists
+ */
+export const findOptionIndex = (
+  options: readonly WheelSelectOption<string>[],
+  value: string | undefined
+): number => {
+  if (value === undefined) return -1
+  const indexOfValue = (options as LazyOptions)[LAZY_INDEX_OF]
+  return indexOfValue ? indexOfValue(value) : options.findIndex(o => o.value === value)
+}
+
+// ============================================================================
+// Picker Positioning
+// ============================================================================
+
+/** Gap between the trigger and a picker placed below or above it */
+const PICKER_OFFSET = 4
+
+/**
+ * Viewport position of the picker box. `top` is its vertical center, since
+ * the box is drawn with translateY(-50%).
+ */
+export interface PickerPosition {
+  left: number
+  top: number
+}
+
+/**
+ * Position the picker for a placement, flipping `below` / `above` to the
+ * other side when only that side has room and shifting the result back
+ * inside the viewport. `above` is the height of content drawn above the box
+ * (the search input); when everything does not fit, the top stays visible.
+ */
+export const getPickerPosition = (
+  anchor: DOMRect,
+  size: { width: number; height: number; above: number },
+  placement: WheelSelectPlacement,
+  padding: number,
+  viewport: { width: number; height: number }
+): PickerPosition => {
+  const half = size.height / 2
+  const belowCenter = anchor.bottom + PICKER_OFFSET + size.above + half
+  const aboveCenter = anchor.top - PICKER_OFFSET - half
+  const fitsBelow = belowCenter + half <= viewport.height - padding
+  const fitsAbove = aboveCenter - half - size.above >= padding
+
+  let center: number
+  switch (placement) {
+    case 'below':
+      center = !fitsBelow && fitsAbove ? aboveCenter : belowCenter
+      break
+    case 'above':
+      center = !fitsAbove && fitsBelow ? belowCenter : aboveCenter
+      break
+    case 'center':
+      center = (viewport.height + size.above) / 2
+      break
+    default:
+      // Center band over the trigger
+      center = anchor.top + anchor.height / 2
+  }
+
+  const left = placement === 'center' ? (viewport.width - size.width) / 2 : anchor.left
+  return {
+    left: Math.max(padding, Math.min(left, viewport.width - padding - size.width)),
+    top: Math.max(padding + size.above + half, Math.min(center, viewport.height - padding - half)),
+  }
+}
+
+/**
+ * Whether the picker opens as a bottom sheet - always for 'sheet', and for
+ * 'auto' on viewports up to `breakpoint` px wide or with a coarse pointer
+ */
+export const isSheetPresentation = (
+  presentation: NonNullable<WheelSelectBehavior['presentation']>,
+  breakpoint: number
+): boolean =>
+  presentation === 'sheet' ||
+  (presentation === 'auto' &&
+    window.matchMedia?.(`(max-width: ${breakpoint}px), (pointer: coarse)`).matches === true)
+
+/**
+ * Keep an open picker positioned against its anchor. Measured before the
+ * first paint, then updated on window resize, on scroll of any ancestor and
+ * when the anchor or the picker changes size. `getAnchor` must be stable.
+ * A search input placed above the picker counts towards its height.
+ */
+export const usePickerPosition = (
+  isOpen: boolean,
+  getAnchor: () => Element | null,
+  pickerRef: RefObject<HTMLElement | null>,
+  placement: WheelSelectPlacement,
+  padding: number,
+  searchRef?: RefObject<HTMLElement | null>
+): PickerPosition | null => {
+  const [position, setPosition] = useState<PickerPosition | null>(null)
+
+  const updatePosition = useCallback(() => {
+    const anchor = getAnchor()
+    const picker = pickerRef.current
+    if (!anchor || !picker) return
+    // Space the search input takes above the picker, unscaled from the
+    // opening animation
+    const search = searchRef?.current
+    const pickerRect = picker.getBoundingClientRect()
+    const scale = picker.offsetHeight > 0 ? pickerRect.height / picker.offsetHeight : 1
+    const above = search && scale > 0
+      ? Math.max(0, pickerRect.top - search.getBoundingClientRect().top) / scale
+      : 0
+    const next = getPickerPosition(
+      anchor.getBoundingClientRect(),
+      { width: picker.offsetWidth, height: picker.offsetHeight, above },
+      placement,
+      padding,
+      { width: window.innerWidth, height: window.innerHeight }
+    )
+    setPosition(prev => (prev && prev.left === next.left && prev.top === next.top ? prev : next))
+  }, [getAnchor, pickerRef, placement, padding, searchRef])
+
+  useLayoutEffect(() => {
+    if (isOpen) {
+      updatePosition()
+    }
+  }, [isOpen, updatePosition])
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    let frame = 0
+    const scheduleUpdate = () => {
+      if (frame) return
+      frame = requestAnimationFrame(() => {
+        frame = 0
+        updatePosition()
+      })
+    }
+    // Scrolling the wheel inside the picker does not move it
+    const handleScroll = (e: Event) => {
+      if (!pickerRef.current?.contains(e.target as Node)) {
+        scheduleUpdate()
+      }
+    }
+
+    // Without ResizeObserver (e.g. jsdom) window resizes and scrolling still update it
+    const observer = typeof ResizeObserver === 'undefined' ? null : new ResizeObserver(scheduleUpdate)
+    const anchor = getAnchor()
+    if (anchor) observer?.observe(anchor)
+    if (pickerRef.current) observer?.observe(pickerRef.current)
+    window.addEventListener('resize', scheduleUpdate)
+    window.addEventListener('scroll', handleScroll, { capture: true, passive: true })
+
+    return () => {
+      cancelAnimationFrame(frame)
+      observer?.disconnect()
+      window.removeEventListener('resize', scheduleUpdate)
+      window.removeEventListener('scroll', handleScroll, { capture: true })
+    }
+  }, [isOpen, getAnchor, pickerRef, updatePosition])
+
+  return position
+}
+
+// ============================================================================
+// Modal Dialog
+// ============================================================================
+
+const FOCUSABLE_SELECTOR = 'button, input, select, textarea, a[href], [tabindex]:not([tabindex="-1"])'
+
+/**
+ * Elements of a container reachable with Tab, in document order
+ */
+export const getFocusableElements = (container: HTMLElement): HTMLElement[] =>
+  Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR)).filter(
+    element => !element.matches(':disabled') && element.tabIndex >= 0 && element.getClientRects().length > 0
+  )
+
+/**
+ * Make everything outside an element inert - the siblings of the element and
+ * of each of its ancestors up to the body. Returns a function that restores
+ * the elements changed, leaving ones that were inert already alone.
+ */
+export const setInertOutside = (element: HTMLElement): (() => void) => {
+  const changed: HTMLElement[] = []
+  let node: HTMLElement = element
+  while (node !== document.body && node.parentElement) {
+    for (const sibling of Array.from(node.parentElement.children)) {
+      if (sibling !== node && sibling instanceof HTMLElement && !sibling.inert) {
+        sibling.inert = true
+        changed.push(sibling)
+      }
+    }
+    node = node.parentElement
+  }
+  return () => changed.forEach(sibling => { sibling.inert = false })
+}
+
+/**
+ * Make an open picker modal: Tab and Shift+Tab cycle through its focusable
+ * elements and the rest of the page is inert. On close focus returns to
+ * `returnFocusRef`, or to the element focused before opening when it is not
+ * mounted - pass null to leave focus alone.
+ */
+export const useModalDialog = (
+  isOpen: boolean,
+  dialogRef: RefObject<HTMLElement | null>,
+  returnFocusRef: RefObject<HTMLElement | null> | null
+): void => {
+  // Read on close, so a changed ref does not close the trap early
+  const returnFocusLatestRef = useRef(returnFocusRef)
+  useEffect(() => {
+    returnFocusLatestRef.current = returnFocusRef
+  })
+
+  // Layout effect, so the focused element is captured before the picker moves focus
+  useLayoutEffect(() => {
+    const dialog = dialogRef.current
+    if (!isOpen || !dialog) return
+
+    const previousFocus = document.activeElement instanceof HTMLElement ? document.activeElement : null
+    const restoreInert = setInertOutside(dialog)
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Tab' || e.defaultPrevented) return
+      const focusable = getFocusableElements(dialog)
+      const first = focusable[0]
+      const last = focusable[focusable.length - 1]
+      if (!first || !last) {
+        e.preventDefault()
+        return
+      }
+      const active = document.activeElement
+      const isOutside = !dialog.contains(active)
+      if (e.shiftKey ? isOutside || active === first : isOutside || active === last) {
+        e.preventDefault()
+        const target = e.shiftKey ? last : first
+        target.focus()
+      }
+    }
+    document.addEventListener('keydown', handleKeyDown)
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown)
+      // The page must be interactive again before focus can return to it
+      restoreInert()
+      const returnFocus = returnFocusLatestRef.current
+      if (returnFocus) {
+        (returnFocus.current ?? previousFocus)?.focus()
+      }
+    }
+  }, [isOpen, dialogRef])
+}
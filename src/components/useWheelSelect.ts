@@ -0,0 +1,1979 @@
+import {
+  useState,
+  useRef,
+  useEffect,
+  useLayoutEffect,
+  useCallback,
+  useMemo,
+  useId,
+  type KeyboardEvent,
+  type MouseEvent,
+  type PointerEvent,
+  type ChangeEvent,
+  type FocusEvent,
+  type SyntheticEvent,
+  type ReactNode,
+  type CSSProperties,
+  type Ref,
+  type HTMLAttributes,
+  type ButtonHTMLAttributes,
+  type InputHTMLAttributes,
+  type SelectHTMLAttributes,
+} from 'react'
+import {
+  defaultTheme,
+  defaultSizing,
+  defaultBehavior,
+  mergeDeep,
+  mergeProps,
+  getSpacerHeight,
+  buildCssVariables,
+  getClosestItemIndex,
+  wrapIndex,
+  findTypeAheadMatch,
+  getKeyAction,
+  fuzzyFilterOption,
+  isCylinderAppearance,
+  applyCylinderTransforms,
+  usePickerPosition,
+  useModalDialog,
+  isSheetPresentation,
+  isLazyOptions,
+  findOptionIndex,
+} from './shared'
+import type {
+  WheelSelectProps,
+  WheelSelectOption,
+  WheelSelectCursor,
+  WheelSelectTheme,
+  WheelSelectSizing,
+  WheelSelectBehavior,
+  WheelSelectKeyAction,
+  WheelSelectOpenChangeReason,
+} from './WheelSelect'
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+/**
+ * Props returned by a prop getter, to spread onto the element. The `ref`
+ * must reach the element - the hook measures and scrolls it.
+ */
+export type WheelSelectElementProps<E extends HTMLElement, A = HTMLAttributes<E>> = A & {
+  ref?: Ref<E>
+}
+
+/**
+ * A row of the wheel as seen by a renderer
+ */
+export interface WheelSelectRowState<T extends string = string> {
+  /** React key of the row */
+  key: string | number
+  /** Option shown in the row - the label of a group header is the group name */
+  option: WheelSelectOption<T>
+  /** Index of the option in `options` (-1 for group headers) */
+  index: number
+  /** Whether the row is a group header rather than an option */
+  isGroupHeader: boolean
+  /** Whether the row is in the center band */
+  isActive: boolean
+  /** Whether the option is selected */
+  isSelected: boolean
+}
+
+/**
+ * State, actions and prop getters of a wheel select, returned by `useWheelSelect`
+ */
+export interface UseWheelSelectReturn<T extends string = string> {
+  /** Whether the wheel is shown (always true for the inline variant) */
+  isOpen: boolean
+  /** Whether the wheel is rendered in place instead of opening from a trigger */
+  isInline: boolean
+  /** Whether the open wheel is presented in a bottom sheet */
+  isSheet: boolean
+  /** Whether several options can be selected */
+  isMultiple: boolean
+  /** Whether the wheel uses the 3D cylinder appearance */
+  isCylinder: boolean
+  /** Whether only the rows near the center band are mounted */
+  isVirtualized: boolean
+  /** Whether the wheel has no rows to show */
+  isEmpty: boolean
+  /** Selected value in single mode, the first selected value in multiple mode */
+  value: T | undefined
+  /** All selected values */
+  selectedValues: T[]
+  /** Options of the selected values */
+  selectedOptions: WheelSelectOption<T>[]
+  /** Label of the selection, or the placeholder */
+  displayLabel: string
+  /** Trimmed search query ('' when not searchable) */
+  filterQuery: string
+  /** State of the next page in async mode */
+  loadStatus: 'idle' | 'loading' | 'error'
+  /** Group of the topmost visible row, shown by the pinned group header */
+  stickyGroup: string | null
+  /** Message of the live region, describing the option in the center band */
+  announcement: string
+  /** Whether the wheel shows group headers */
+  hasGroupHeaders: boolean
+  /** Rows to render, in order - pass each one to `getRow` and `getOptionProps` */
+  rows: number[]
+  /** Options listed by the hidden native select */
+  nativeOptions: WheelSelectOption<T>[]
+  /** Theme merged with the defaults */
+  theme: Required<WheelSelectTheme>
+  /** Sizing merged with the defaults */
+  sizing: Required<WheelSelectSizing>
+  /** Behavior merged with the defaults */
+  behavior: Required<WheelSelectBehavior>
+  /** CSS custom properties of the theme and sizing, for the root and the picker */
+  cssVariables: CSSProperties
+  /** Whether the wheel is dragged with a pointer, or gliding after the release - turn scroll snapping off meanwhile */
+  isDragging: boolean
+  /** Whether the bottom sheet is dragged by its header - turn its transition off meanwhile */
+  isSheetDragging: boolean
+  /** Whether the field shows as invalid */
+  isInvalid: boolean
+  /** Message to show under an invalid field (null when there is none) */
+  errorMessage: ReactNode
+
+  /** Open the picker, reporting a reason to onOpenChange (default: 'programmatic') */
+  open: (reason?: WheelSelectOpenChangeReason) => void
+  /** Close the picker, reporting a reason to onOpenChange (default: 'programmatic') */
+  close: (reason?: WheelSelectOpenChangeReason) => void
+  /** Toggle the picker (reason: 'programmatic') */
+  toggle: () => void
+  /** Focus the trigger, or the wheel of the inline variant */
+  focus: () => void
+  /** Scroll to an option by its index in `options` (ignored while it is filtered out) */
+  scrollToIndex: (index: number) => void
+  /** Repeat the page request that failed (async mode) */
+  retryLoad: () => void
+  /** Commit the centered option (single mode) and close - the sheet's Done action */
+  confirm: () => void
+  /** Revert changes made since the picker opened and close - the sheet's Cancel action */
+  cancel: () => void
+  /** The hidden native select */
+  getNativeSelect: () => HTMLSelectElement | null
+  /** Check the constraints and show the message on the field when one fails - returns whether the value is valid */
+  reportValidity: () => boolean
+  /** Set a custom validation message ('' clears it) */
+  setCustomValidity: (message: string) => void
+
+  /** Props of the root element, the picker's anchor when there is no trigger */
+  getRootProps: (props?: HTMLAttributes<HTMLElement>) => WheelSelectElementProps<HTMLElement>
+  /** Props of the trigger button */
+  getTriggerProps: (
+    props?: ButtonHTMLAttributes<HTMLButtonElement>
+  ) => WheelSelectElementProps<HTMLButtonElement, ButtonHTMLAttributes<HTMLButtonElement>>
+  /** Props of the hidden native select that takes part in forms */
+  getNativeSelectProps: (
+    props?: SelectHTMLAttributes<HTMLSelectElement>
+  ) => WheelSelectElementProps<HTMLSelectElement, SelectHTMLAttributes<HTMLSelectElement>>
+  /** Props of the backdrop behind the picker - clicking it closes the picker */
+  getBackdropProps: (props?: HTMLAttributes<HTMLDivElement>) => WheelSelectElementProps<HTMLDivElement>
+  /** Props of the picker dialog (the wheel's container when inline) */
+  getPickerProps: (props?: HTMLAttributes<HTMLDivElement>) => WheelSelectElementProps<HTMLDivElement>
+  /** Props of the bottom sheet header - drag it down to dismiss */
+  getSheetHeaderProps: (props?: HTMLAttributes<HTMLDivElement>) => WheelSelectElementProps<HTMLDivElement>
+  /** Props of the search input */
+  getSearchProps: (
+    props?: InputHTMLAttributes<HTMLInputElement>
+  ) => WheelSelectElementProps<HTMLInputElement, InputHTMLAttributes<HTMLInputElement>>
+  /** Props of the pinned group header */
+  getStickyHeaderProps: (props?: HTMLAttributes<HTMLDivElement>) => WheelSelectElementProps<HTMLDivElement>
+  /** Props of the scrolling listbox */
+  getListboxProps: (props?: HTMLAttributes<HTMLDivElement>) => WheelSelectElementProps<HTMLDivElement>
+  /** Props of the polite live region that reads out `announcement` */
+  getLiveRegionProps: (props?: HTMLAttributes<HTMLDivElement>) => WheelSelectElementProps<HTMLDivElement>
+  /** Props of the error message - the trigger (or inline listbox) is described by it */
+  getErrorMessageProps: (props?: HTMLAttributes<HTMLElement>) => WheelSelectElementProps<HTMLElement>
+  /** Props of the element holding the rows when virtualized */
+  getVirtualListProps: (props?: HTMLAttributes<HTMLDivElement>) => WheelSelectElementProps<HTMLDivElement>
+  /** State of a row (null outside the rows) */
+  getRow: (row: number) => WheelSelectRowState<T> | null
+  /** Props of a row - an option, or a group header */
+  getOptionProps: (row: number, props?: HTMLAttributes<HTMLDivElement>) => WheelSelectElementProps<HTMLDivElement>
+}
+
+// ============================================================================
+// Hook
+// ============================================================================
+
+/** A row of the wheel - an option, or the header of the group that follows */
+type WheelRow<T extends string> = WheelSelectOption<T> & { isGroupHeader?: boolean }
+
+/** Minimum number of rows rendered in loop mode, so flings never reach the ends */
+const LOOP_MIN_ROWS = 500
+
+const NO_OPTIONS: never[] = []
+
+/** Pointer travel in px before a press on the wheel becomes a drag */
+const DRAG_THRESHOLD = 4
+
+/** Time constant in ms of the momentum glide after a drag is released */
+const MOMENTUM_TIME_CONSTANT = 325
+
+/** Accumulated wheel delta in px that counts as one notch when stepping per option */
+const WHEEL_NOTCH_DELTA = 50
+
+/** Downward drag speed in px/ms that dismisses the bottom sheet */
+const SHEET_DISMISS_VELOCITY = 0.5
+
+/** Minimum time in ms between two live region announcements */
+const ANNOUNCE_THROTTLE_MS = 500
+
+/** Picker actions that move the wheel rather than commit or close */
+const NAVIGATION_ACTIONS = new Set<WheelSelectKeyAction>(['next', 'previous', 'first', 'last', 'pageUp', 'pageDown'])
+
+/**
+ * Headless wheel select - the state machine behind `WheelSelect` (open state,
+ * active row, scroll-to-center, keyboard handling, commit and close) without
+ * any markup. Takes the props of `WheelSelect`; the ones that only affect
+ * rendering are ignored. Spread the prop getters onto your own elements.
+ */
+export const useWheelSelect = <T extends string = string>(
+  props: WheelSelectProps<T>
+): UseWheelSelectReturn<T> => {
+  const {
+    options: optionsProp = NO_OPTIONS,
+    loadOptions,
+    getOptionLabel,
+    resolveValue,
+    placeholder = 'Select...',
+    disabled = false,
+    required = false,
+    invalid,
+    errorMessage,
+    name,
+    autoComplete,
+    id,
+    theme: themeProp,
+    sizing: sizingProp,
+    behavior: behaviorProp,
+    a11y,
+    callbacks,
+    searchable = false,
+    filterOption = fuzzyFilterOption,
+    searchPlaceholder = 'Search...',
+    zIndex = 10001,
+    variant = 'popover',
+    open: openProp,
+    defaultOpen = false,
+    onOpenChange,
+  } = props
+
+  const isInline = variant === 'inline'
+
+  // Ids of the listbox and options are unique per instance without an `id`
+  const instanceId = useId()
+  const baseId = id ?? instanceId
+
+  // Normalize single and multiple modes to a list of selected values.
+  // Without a `value` prop the component is uncontrolled and owns the selection.
+  const isMultiple = props.multiple === true
+  const isControlled = props.value !== undefined
+  const getDefaultValues = (): T[] => {
+    if (props.multiple) return props.defaultValue ?? []
+    return [props.defaultValue ?? ('' as T)]
+  }
+  const [uncontrolledValues, setUncontrolledValues] = useState(getDefaultValues)
+  const selectedValues = useMemo(
+    (): T[] => {
+      if (props.value === undefined) return uncontrolledValues
+      return props.multiple ? props.value : [props.value]
+    },
+    [props.multiple, props.value, uncontrolledValues]
+  )
+  const value = selectedValues[0]
+
+  // Merge configurations with defaults
+  const theme = useMemo(
+    () => mergeDeep(defaultTheme, themeProp || {}),
+    [themeProp]
+  )
+  const sizing = useMemo(
+    () => mergeDeep(defaultSizing, sizingProp || {}),
+    [sizingProp]
+  )
+  const behavior = useMemo(
+    () => mergeDeep(defaultBehavior, behaviorProp || {}),
+    [behaviorProp]
+  )
+
+  // Async mode - the wheel shows the pages loaded so far. Options of selected
+  // values are remembered so the trigger label survives reloading.
+  const isAsync = loadOptions !== undefined
+  const [loadedOptions, setLoadedOptions] = useState<WheelSelectOption<T>[]>([])
+  const [loadStatus, setLoadStatus] = useState<'idle' | 'loading' | 'error'>('idle')
+  const [nextCursor, setNextCursor] = useState<WheelSelectCursor | null>(null)
+  const [knownOptions, setKnownOptions] = useState<ReadonlyMap<string, WheelSelectOption<T>>>(() => new Map())
+  const options = isAsync ? loadedOptions : optionsProp
+
+  // State
+  const [openState, setOpenState] = useState(defaultOpen)
+  const [activeIndex, setActiveIndex] = useState(() =>
+    Math.max(0, findOptionIndex(options, value))
+  )
+  const [visibleRange, setVisibleRange] = useState<[number, number]>([0, 0])
+  const [activeRow, setActiveRow] = useState(0)
+  const [query, setQuery] = useState('')
+  const [stickyGroup, setStickyGroup] = useState<string | null>(null)
+  const [announcement, setAnnouncement] = useState('')
+  // Message of the failed constraint (null while valid) - shown once the user
+  // commits a value, leaves the field or submits the form
+  const [validationMessage, setValidationMessage] = useState<string | null>(null)
+  const [isValidationShown, setIsValidationShown] = useState(false)
+  // Pointer drags - the wheel (until its glide ends) and the sheet header
+  const [isDragging, setIsDragging] = useState(false)
+  const [isSheetDragging, setIsSheetDragging] = useState(false)
+
+  // The inline wheel is always shown; the popover follows the `open` prop
+  // when it is passed (controlled mode) and its own state otherwise
+  const isOpenControlled = openProp !== undefined
+  const isOpenRequested = openProp ?? openState
+  const isOpen = isInline || (!disabled && isOpenRequested)
+
+  // Sheet or popover, decided each time the picker opens
+  const isSheet = useMemo(
+    () => isOpen && !isInline && isSheetPresentation(behavior.presentation, behavior.sheetBreakpoint),
+    [isOpen, isInline, behavior.presentation, behavior.sheetBreakpoint]
+  )
+
+  // Refs
+  const triggerRef = useRef<HTMLButtonElement>(null)
+  const rootRef = useRef<HTMLElement>(null)
+  const pickerRef = useRef<HTMLDivElement>(null)
+  const openValuesRef = useRef<T[]>([])
+  const sheetDragRef = useRef<{ pointerId: number; startY: number; startTime: number; offset: number } | null>(null)
+  const selectRef = useRef<HTMLSelectElement>(null)
+  const wheelRef = useRef<HTMLDivElement>(null)
+  const searchRef = useRef<HTMLInputElement>(null)
+  const stickyHeaderRef = useRef<HTMLDivElement>(null)
+  const itemRefs = useRef<(HTMLDivElement | null)[]>([])
+  const initialScrollIndexRef = useRef<number | null>(null)
+  const scrollTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const isScrollingRef = useRef(false)
+  const activeRowRef = useRef(0)
+  const isRecenteringRef = useRef(false)
+  const tickRowRef = useRef<number | null>(null)
+  const cylinderFrameRef = useRef<number | null>(null)
+  const typeAheadRef = useRef('')
+  const typeAheadTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const announceTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const pendingAnnouncementRef = useRef('')
+  const lastAnnounceTimeRef = useRef(0)
+  const announcedValueRef = useRef<string | null>(null)
+  const pendingCenterRef = useRef(false)
+  const userScrolledRef = useRef(false)
+  const wheelDragRef = useRef<{
+    pointerId: number
+    startY: number
+    lastY: number
+    lastTime: number
+    velocity: number
+    isDragging: boolean
+  } | null>(null)
+  const momentumFrameRef = useRef(0)
+  const suppressClickRef = useRef(false)
+  const loadControllerRef = useRef<AbortController | null>(null)
+  const lastRequestRef = useRef<{ query: string; cursor: WheelSelectCursor | null }>({ query: '', cursor: null })
+  const requestedValuesRef = useRef(new Set<string>())
+  const selectedValuesRef = useRef(selectedValues)
+
+  // Computed values
+  // Option of a value - in async mode falling back to remembered options and
+  // getOptionLabel for values that are not loaded
+  const lookupOption = useCallback((v: T): WheelSelectOption<T> | undefined => {
+    const option = options[findOptionIndex(options, v)] ?? knownOptions.get(v)
+    if (option || !isAsync || v === '') return option
+    return getOptionLabel ? { value: v, label: getOptionLabel(v) } : undefined
+  }, [options, knownOptions, isAsync, getOptionLabel])
+
+  const selectedOption = useMemo(
+    () => (value === undefined ? undefined : lookupOption(value)),
+    [lookupOption, value]
+  )
+  const selectedSet = useMemo(() => new Set<string>(selectedValues), [selectedValues])
+  const selectedOptions = useMemo(
+    () => (isAsync || isLazyOptions(options)
+      ? selectedValues.flatMap(v => lookupOption(v) ?? [])
+      : options.filter(o => selectedSet.has(o.value))),
+    [isAsync, selectedValues, lookupOption, options, selectedSet]
+  )
+  const displayLabel = props.multiple
+    ? (props.formatSelection
+      ? props.formatSelection(selectedOptions)
+      : selectedOptions.length === 0
+        ? placeholder
+        : selectedOptions.length === 1
+          ? selectedOptions[0]!.label
+          : `${selectedOptions.length} selected`)
+    : selectedOption?.label ?? placeholder
+
+  // Emit a change through the handler of the current selection mode
+  const emitChange = useCallback((values: T[]) => {
+    setIsValidationShown(true)
+    if (props.multiple) {
+      if (!isControlled) setUncontrolledValues(values)
+      props.onChange?.(values)
+    } else if (values[0] !== undefined) {
+      if (!isControlled) setUncontrolledValues([values[0]])
+      props.onChange?.(values[0])
+    }
+  }, [props.multiple, props.onChange, isControlled])
+
+  // Rows of the wheel - the options, or the search matches in searchable mode
+  // (async mode leaves filtering to the loader), with a header row inserted
+  // where a group starts.
+  // Active indices, rows and the rendered list all refer to positions in `items`;
+  // `itemIndices` maps them back to indices in `options` (-1 for headers).
+  const filterQuery = searchable ? query.trim() : ''
+  const { items, itemIndices, hasGroups } = useMemo(() => {
+    const matches = filterQuery && !isAsync
+      ? options.flatMap((option, index) => (filterOption(option, filterQuery) ? [index] : []))
+      : null
+    // Lazy lists have no groups - scanning them would create every option
+    if (isLazyOptions(options) || !options.some(o => o.group !== undefined)) {
+      return {
+        items: (matches ? matches.map(index => options[index]!) : options) as WheelRow<T>[],
+        itemIndices: matches,
+        hasGroups: false,
+      }
+    }
+
+    const rows: WheelRow<T>[] = []
+    const indices: number[] = []
+    let currentGroup: string | undefined
+    for (const index of matches ?? options.keys()) {
+      const option = options[index]!
+      if (option.group !== undefined && option.group !== currentGroup) {
+        rows.push({ value: '' as T, label: option.group, disabled: true, isGroupHeader: true })
+        indices.push(-1)
+      }
+      currentGroup = option.group
+      rows.push(option)
+      indices.push(index)
+    }
+    return { items: rows, itemIndices: indices, hasGroups: true }
+  }, [options, filterQuery, filterOption, isAsync])
+
+  const toOptionIndex = useCallback(
+    (position: number) => (itemIndices ? itemIndices[position] ?? -1 : position),
+    [itemIndices]
+  )
+
+  const headerPositions = useMemo(
+    () => (hasGroups ? items.flatMap((item, position) => (item.isGroupHeader ? [position] : [])) : []),
+    [items, hasGroups]
+  )
+
+  // Position of an option row among the options, counting from 1 (headers are
+  // not counted), and the row of the header of its group (-1 if none)
+  const getPositionInSet = useCallback((index: number) => {
+    let headersBefore = 0
+    let headerPosition = -1
+    for (const position of headerPositions) {
+      if (position > index) break
+      headersBefore++
+      headerPosition = position
+    }
+    return { position: index + 1 - headersBefore, headerPosition }
+  }, [headerPositions])
+
+  // Position of an option in the wheel rows (-1 if not shown)
+  const getItemPosition = useCallback(
+    (v: T | undefined) => (itemIndices
+      ? items.findIndex(o => !o.isGroupHeader && o.value === v)
+      : findOptionIndex(items, v)),
+    [items, itemIndices]
+  )
+
+  // Keep active index in sync when value changes externally
+  useEffect(() => {
+    const idx = getItemPosition(value)
+    if (idx !== -1) {
+      setActiveIndex(idx)
+    }
+  }, [value, getItemPosition])
+
+  useEffect(() => {
+    selectedValuesRef.current = selectedValues
+  }, [selectedValues])
+
+  // Restore the default value when the parent form resets (uncontrolled mode).
+  // The browser resets the native select after the event and React does not
+  // notice, so the select is re-synced with the selection afterwards.
+  useEffect(() => {
+    const form = selectRef.current?.form
+    if (!form) return
+
+    const handleReset = () => {
+      if (!isControlled) {
+        setUncontrolledValues(getDefaultValues())
+      }
+      setIsValidationShown(false)
+      setTimeout(() => {
+        const select = selectRef.current
+        if (!select) return
+        const current = new Set<string>(selectedValuesRef.current)
+        Array.from(select.options).forEach(option => {
+          option.selected = current.has(option.value)
+        })
+      })
+    }
+
+    form.addEventListener('reset', handleReset)
+    return () => form.removeEventListener('reset', handleReset)
+  }, [isControlled, props.multiple, props.defaultValue])
+
+  // Constraint validation runs on the hidden native select, so forms and
+  // :invalid see it. `validate` and a message set through the ref become its
+  // custom validity (the ref's message wins).
+  const runValidate = (values: T[]): string | null | undefined =>
+    props.multiple ? props.validate?.(values) : props.validate?.(values[0] ?? ('' as T))
+  const runValidateRef = useRef(runValidate)
+  useEffect(() => {
+    runValidateRef.current = runValidate
+  })
+  const customValidityRef = useRef('')
+
+  const updateValidity = useCallback(() => {
+    const select = selectRef.current
+    if (!select) return
+    select.setCustomValidity(customValidityRef.current || runValidateRef.current(selectedValues) || '')
+    setValidationMessage(select.willValidate && !select.validity.valid ? select.validationMessage : null)
+  }, [selectedValues])
+
+  // Re-validate on commit - the native select holds the new value by now
+  useEffect(() => {
+    updateValidity()
+  }, [updateValidity, required, disabled])
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => {
+      if (scrollTimeoutRef.current) {
+        clearTimeout(scrollTimeoutRef.current)
+      }
+      if (cylinderFrameRef.current !== null) {
+        cancelAnimationFrame(cylinderFrameRef.current)
+      }
+      if (typeAheadTimeoutRef.current) {
+        clearTimeout(typeAheadTimeoutRef.current)
+      }
+      if (announceTimeoutRef.current) {
+        clearTimeout(announceTimeoutRef.current)
+      }
+      loadControllerRef.current?.abort()
+    }
+  }, [])
+
+  // Remember the option of a selected value (async mode)
+  const rememberOption = useCallback((option: WheelSelectOption<T>) => {
+    setKnownOptions(prev =>
+      prev.get(option.value) === option ? prev : new Map(prev).set(option.value, option)
+    )
+  }, [])
+
+  // Resolve selected values whose options are not loaded (async mode)
+  useEffect(() => {
+    if (!isAsync || !resolveValue) return
+    selectedValues.forEach(v => {
+      if (v === '' || requestedValuesRef.current.has(v)) return
+      if (knownOptions.has(v) || options.some(o => o.value === v)) return
+      requestedValuesRef.current.add(v)
+      resolveValue(v).then(
+        option => {
+          if (option) rememberOption(option)
+        },
+        (error: unknown) => callbacks?.onLoadError?.(error)
+      )
+    })
+  }, [isAsync, resolveValue, selectedValues, knownOptions, options])
+
+  // Load a page of options, cancelling the request in flight
+  const loadPage = useCallback((pageQuery: string, cursor: WheelSelectCursor | null) => {
+    if (!loadOptions) return
+    loadControllerRef.current?.abort()
+    const controller = new AbortController()
+    loadControllerRef.current = controller
+    lastRequestRef.current = { query: pageQuery, cursor }
+    setLoadStatus('loading')
+
+    loadOptions(pageQuery, cursor, controller.signal).then(
+      page => {
+        if (controller.signal.aborted) return
+        loadControllerRef.current = null
+        if (cursor === null) {
+          // Centering the first page is programmatic - a stale user mark
+          // must not commit it on settle
+          pendingCenterRef.current = true
+          userScrolledRef.current = false
+        }
+        setLoadedOptions(prev => (cursor === null ? page.options : [...prev, ...page.options]))
+        setNextCursor(page.nextCursor ?? null)
+        setLoadStatus('idle')
+      },
+      (error: unknown) => {
+        if (controller.signal.aborted) return
+        loadControllerRef.current = null
+        if (cursor === null) {
+          setLoadedOptions([])
+        }
+        setLoadStatus('error')
+        callbacks?.onLoadError?.(error)
+      }
+    )
+  }, [loadOptions, callbacks])
+
+  // Repeat the request that failed
+  const retryLoad = useCallback(() => {
+    loadPage(lastRequestRef.current.query, lastRequestRef.current.cursor)
+  }, [loadPage])
+
+  // Calculate spacer height based on wheel and option heights
+  const spacerHeight = useMemo(
+    () => getSpacerHeight(sizing),
+    [sizing]
+  )
+
+  // Windowed rendering for large lists (requires a numeric option height)
+  const optionHeightPx = typeof sizing.optionHeight === 'number' ? sizing.optionHeight : null
+
+  // Loop mode renders the options as repeated copies and keeps the scroll
+  // position in the middle copy. Rows index the rendered copies; items[row % n]
+  // is the option shown in a row. Partially loaded async lists cannot loop.
+  const isLooping = behavior.loop && !isAsync && optionHeightPx !== null && items.length > 0
+  const loopCopies = isLooping
+    ? 2 * Math.ceil(LOOP_MIN_ROWS / (2 * items.length)) + 1
+    : 1
+  const rowCount = items.length * loopCopies
+  const middleCopyStart = items.length * Math.floor(loopCopies / 2)
+
+  const isVirtualized = optionHeightPx !== null && (
+    isLooping ||
+    behavior.virtualize === true ||
+    (typeof behavior.virtualize === 'number' && items.length > behavior.virtualize)
+  )
+
+  // Update the active row (loop mode) together with the real option index
+  const setActiveRowAndIndex = useCallback((row: number) => {
+    activeRowRef.current = row
+    setActiveRow(row)
+    setActiveIndex(wrapIndex(row, items.length))
+  }, [items.length])
+
+  // Row of the copy of an option nearest the active row (loop mode)
+  const getNearestRow = useCallback((index: number): number => {
+    if (!isLooping) return index
+    const n = items.length
+    let delta = wrapIndex(index - activeRowRef.current, n)
+    if (delta > n / 2) delta -= n
+    return activeRowRef.current + delta
+  }, [isLooping, items.length])
+
+  // Range of options intersecting the wheel viewport, including overscan
+  const getRangeForScroll = useCallback((scrollTop: number, viewportHeight: number): [number, number] => {
+    if (optionHeightPx === null) return [0, rowCount - 1]
+    const lastIndex = Math.max(0, rowCount - 1)
+    const first = Math.floor((scrollTop - spacerHeight) / optionHeightPx) - behavior.overscan
+    const last = Math.ceil((scrollTop + viewportHeight - spacerHeight) / optionHeightPx) + behavior.overscan
+    return [
+      Math.min(Math.max(0, first), lastIndex),
+      Math.min(Math.max(0, last), lastIndex),
+    ]
+  }, [optionHeightPx, rowCount, spacerHeight, behavior.overscan])
+
+  // Update the rendered window from the current scroll position
+  const updateVisibleRange = useCallback(() => {
+    const wheel = wheelRef.current
+    if (!wheel || !isVirtualized) return
+    const [start, end] = getRangeForScroll(wheel.scrollTop, wheel.clientHeight)
+    setVisibleRange(prev => (prev[0] === start && prev[1] === end ? prev : [start, end]))
+  }, [isVirtualized, getRangeForScroll])
+
+  // Scroll position that centers an option (a row when virtualized) in the wheel
+  const getScrollTopForIndex = useCallback((index: number): number | null => {
+    const wheel = wheelRef.current
+    if (!wheel) return null
+    if (isVirtualized && optionHeightPx !== null) {
+      return spacerHeight + index * optionHeightPx + (optionHeightPx / 2) - (wheel.clientHeight / 2)
+    }
+    const item = itemRefs.current[index]
+    if (!item) return null
+    return item.offsetTop - (wheel.clientHeight / 2) + (item.clientHeight / 2)
+  }, [isVirtualized, optionHeightPx, spacerHeight])
+
+  // Stop a momentum glide after a drag, handing the wheel back to scroll snapping
+  const stopMomentum = useCallback(() => {
+    if (momentumFrameRef.current) {
+      cancelAnimationFrame(momentumFrameRef.current)
+      momentumFrameRef.current = 0
+    }
+    setIsDragging(false)
+  }, [])
+
+  // Scroll the wheel so an option sits in the center band
+  const scrollWheelToIndex = useCallback((index: number, smooth: boolean = true) => {
+    const top = getScrollTopForIndex(index)
+    if (top === null) return
+    stopMomentum()
+    wheelRef.current?.scrollTo({ top, behavior: smooth ? 'smooth' : 'auto' })
+  }, [getScrollTopForIndex, stopMomentum])
+
+  // Center the wheel on the selected option (or the first enabled one) for
+  // showing it - in async mode from a fresh first page
+  const prepareWheel = useCallback(() => {
+    pendingCenterRef.current = false
+    userScrolledRef.current = false
+    if (isAsync) {
+      // Every opening starts from a fresh first page, centered once it arrives
+      setLoadedOptions([])
+      setNextCursor(null)
+      setLoadStatus('loading')
+      initialScrollIndexRef.current = null
+      tickRowRef.current = null
+      setActiveRowAndIndex(0)
+      return
+    }
+    const idx = getItemPosition(value)
+    const targetIndex = idx !== -1 ? idx : Math.max(0, items.findIndex(o => !o.disabled))
+    const targetRow = isLooping ? middleCopyStart + targetIndex : targetIndex
+    initialScrollIndexRef.current = targetRow
+    // Centering the selected option on open is not a tick
+    tickRowRef.current = targetRow
+    setActiveRowAndIndex(targetRow)
+    if (isVirtualized && optionHeightPx !== null) {
+      const viewportHeight = spacerHeight * 2 + optionHeightPx
+      setVisibleRange(getRangeForScroll(targetRow * optionHeightPx, viewportHeight))
+    }
+  }, [isAsync, items, getItemPosition, value, isLooping, middleCopyStart, setActiveRowAndIndex, isVirtualized, optionHeightPx, spacerHeight, getRangeForScroll])
+
+  // Prepare the wheel whenever it is shown - opened by the user, through the
+  // `open` prop or as an inline wheel - before the first paint. onOpen and
+  // onClose follow the open state, so they fire in controlled mode too.
+  const wasOpenRef = useRef(false)
+  const isPopoverOpenRef = useRef(false)
+  useLayoutEffect(() => {
+    if (isOpen === wasOpenRef.current) return
+    wasOpenRef.current = isOpen
+    if (isOpen) {
+      prepareWheel()
+      if (!isInline) {
+        isPopoverOpenRef.current = true
+        openValuesRef.current = selectedValues
+        callbacks?.onOpen?.()
+      }
+    } else if (isPopoverOpenRef.current) {
+      isPopoverOpenRef.current = false
+      callbacks?.onClose?.()
+    }
+  })
+
+  // Ask for a new open state - applied directly unless `open` is controlled
+  // (closing compares with the requested state, which a disabled field hides)
+  const changeOpen = useCallback((nextOpen: boolean, reason: WheelSelectOpenChangeReason) => {
+    if (isInline || (nextOpen ? disabled || isOpen : !isOpenRequested)) return
+    if (!isOpenControlled) {
+      setOpenState(nextOpen)
+    }
+    onOpenChange?.(nextOpen, reason)
+  }, [isInline, disabled, isOpen, isOpenRequested, isOpenControlled, onOpenChange])
+
+  // Disabling the field closes the picker for good - enabling it again does
+  // not reopen it, and a controlled parent is told about the close
+  useEffect(() => {
+    if (disabled) {
+      changeOpen(false, 'disabled')
+    }
+  }, [disabled])
+
+  // Open picker - the inline wheel is always shown
+  const openPicker = useCallback(
+    (reason: WheelSelectOpenChangeReason) => changeOpen(true, reason),
+    [changeOpen]
+  )
+
+  // Close picker
+  const closePicker = useCallback(
+    (reason: WheelSelectOpenChangeReason) => changeOpen(false, reason),
+    [changeOpen]
+  )
+
+  // Toggle an option in multiple mode - the picker stays open
+  const toggleSelection = useCallback((toggledValue: T) => {
+    const option = options[findOptionIndex(options, toggledValue)]
+    if (!option || option.disabled) return
+
+    // Async lists may not contain every selected option, so keep the selection order
+    const nextValues = isAsync
+      ? (selectedSet.has(toggledValue)
+        ? selectedValues.filter(v => v !== toggledValue)
+        : [...selectedValues, toggledValue])
+      : options
+        .filter(o => o.value === toggledValue ? !selectedSet.has(o.value) : selectedSet.has(o.value))
+        .map(o => o.value)
+    if (isAsync) {
+      rememberOption(option)
+    }
+    emitChange(nextValues)
+    callbacks?.onChange?.(toggledValue, option)
+  }, [options, isAsync, selectedValues, selectedSet, rememberOption, emitChange, callbacks])
+
+  // Change the value in single mode without touching the open state
+  const selectValue = useCallback((newValue: T): boolean => {
+    const option = options[findOptionIndex(options, newValue)]
+    if (!option || option.disabled) return false
+
+    if (isAsync) {
+      rememberOption(option)
+    }
+    emitChange([newValue])
+    callbacks?.onChange?.(newValue, option)
+
+    if (selectRef.current) {
+      selectRef.current.value = newValue
+    }
+    return true
+  }, [options, isAsync, rememberOption, emitChange, callbacks])
+
+  // Commit selection
+  const commitSelection = useCallback((newValue: T) => {
+    if (isMultiple) {
+      toggleSelection(newValue)
+      return
+    }
+
+    if (!selectValue(newValue)) return
+
+    if (behavior.closeOnSelect) {
+      closePicker('select')
+    }
+  }, [isMultiple, toggleSelection, selectValue, behavior.closeOnSelect, closePicker])
+
+  // The inline wheel follows value changes made outside of it
+  useEffect(() => {
+    if (!isInline || !isOpen || isMultiple) return
+    const position = getItemPosition(value)
+    if (position === -1 || position === activeIndex) return
+    const row = getNearestRow(position)
+    setActiveRowAndIndex(row)
+    scrollWheelToIndex(row)
+  }, [value])
+
+  // Scroll to selected item when picker opens
+  useEffect(() => {
+    if (isOpen && initialScrollIndexRef.current !== null) {
+      const targetIndex = initialScrollIndexRef.current
+      initialScrollIndexRef.current = null
+
+      requestAnimationFrame(() => {
+        const wheel = wheelRef.current
+        const scrollTarget = getScrollTopForIndex(targetIndex)
+        if (wheel && scrollTarget !== null) {
+          wheel.scrollTop = scrollTarget
+        }
+      })
+    }
+  }, [isOpen])
+
+  // Focus the search input (or the wheel) when picker opens, and start
+  // every search fresh. The inline wheel never takes focus by itself.
+  useEffect(() => {
+    if (!isOpen) {
+      setQuery('')
+      return
+    }
+    if (!isInline) {
+      (searchRef.current ?? wheelRef.current)?.focus()
+    }
+  }, [isOpen])
+
+  // Re-center the wheel when the list is replaced by a new search or a first
+  // async page - on the selected option if it is listed, otherwise on the
+  // first enabled option
+  useEffect(() => {
+    if (!isOpen || !pendingCenterRef.current || items.length === 0) return
+    pendingCenterRef.current = false
+    const selectedPosition = getItemPosition(value)
+    const targetIndex = selectedPosition !== -1
+      ? selectedPosition
+      : Math.max(0, items.findIndex(o => !o.disabled))
+    const targetRow = isLooping ? middleCopyStart + targetIndex : targetIndex
+    tickRowRef.current = targetRow
+    setActiveRowAndIndex(targetRow)
+    if (isVirtualized && optionHeightPx !== null) {
+      const viewportHeight = spacerHeight * 2 + optionHeightPx
+      setVisibleRange(getRangeForScroll(targetRow * optionHeightPx, viewportHeight))
+    }
+    requestAnimationFrame(() => scrollWheelToIndex(targetRow, false))
+  }, [isOpen, items])
+
+  // Load the first page when the picker opens and whenever the search query
+  // changes. Closing or a newer query cancels the request in flight.
+  useEffect(() => {
+    if (!isOpen || !isAsync) return
+    const timeout = setTimeout(
+      () => loadPage(filterQuery, null),
+      filterQuery ? behavior.loadDebounceMs : 0
+    )
+    return () => {
+      clearTimeout(timeout)
+      loadControllerRef.current?.abort()
+      loadControllerRef.current = null
+    }
+  }, [isOpen, isAsync, filterQuery])
+
+  // Fetch the next page once the wheel nears the end spacer (async mode)
+  const loadMoreIfNeeded = useCallback(() => {
+    const wheel = wheelRef.current
+    if (!wheel || !isAsync || loadStatus !== 'idle' || nextCursor === null) return
+    const remaining = wheel.scrollHeight - wheel.scrollTop - wheel.clientHeight
+    if (remaining <= spacerHeight + wheel.clientHeight / 2) {
+      loadPage(lastRequestRef.current.query, nextCursor)
+    }
+  }, [isAsync, loadStatus, nextCursor, spacerHeight, loadPage])
+
+  // Keep loading while the loaded pages do not fill the wheel
+  useEffect(() => {
+    if (isOpen) {
+      loadMoreIfNeeded()
+    }
+  }, [isOpen, loadedOptions, loadStatus])
+
+  // Change the search query - locally filtered lists re-center on the new
+  // matches, without committing on settle even after a press or key that
+  // did not move the wheel
+  const changeQuery = useCallback((nextQuery: string) => {
+    userScrolledRef.current = false
+    if (!isAsync) {
+      pendingCenterRef.current = true
+    }
+    setQuery(nextQuery)
+  }, [isAsync])
+
+  // Commit-on-settle mode: a settled user scroll commits the centered option,
+  // snapping away from disabled options to the nearest enabled one
+  const isSettleCommit = behavior.commitOn === 'settle' && !isMultiple
+
+  const commitSettledRow = useCallback((row: number) => {
+    const isEnabledRow = (r: number) =>
+      r >= 0 && r < rowCount && !items[wrapIndex(r, items.length)]?.disabled
+
+    let targetRow = row
+    if (!isEnabledRow(row)) {
+      targetRow = -1
+      for (let distance = 1; distance < rowCount && targetRow === -1; distance++) {
+        if (isEnabledRow(row - distance)) targetRow = row - distance
+        else if (isEnabledRow(row + distance)) targetRow = row + distance
+      }
+      if (targetRow === -1) return
+      setActiveRowAndIndex(targetRow)
+      scrollWheelToIndex(targetRow)
+    }
+
+    const option = items[wrapIndex(targetRow, items.length)]
+    if (option && option.value !== value) {
+      selectValue(option.value)
+    }
+  }, [items, rowCount, value, setActiveRowAndIndex, scrollWheelToIndex, selectValue])
+
+  // Calculate active index from scroll position
+  const calculateActiveFromScroll = useCallback(() => {
+    const wheel = wheelRef.current
+    if (!wheel) return
+
+    let closestIndex: number
+    let row: number
+    if (isVirtualized && optionHeightPx !== null) {
+      // Virtualized lists derive the row arithmetically instead of measuring every item
+      row = Math.min(
+        Math.max(0, Math.round((wheel.scrollTop + wheel.clientHeight / 2 - spacerHeight - optionHeightPx / 2) / optionHeightPx)),
+        rowCount - 1
+      )
+      // Group headers are never active - the option below takes their place
+      if (items[wrapIndex(row, items.length)]?.isGroupHeader && row + 1 < rowCount) {
+        row++
+      }
+      // Jump back to the same option in the middle copy - the content is identical,
+      // so the user never sees the wrap
+      if (isLooping) {
+        const middleRow = middleCopyStart + wrapIndex(row, items.length)
+        if (middleRow !== row) {
+          isRecenteringRef.current = true
+          wheel.scrollTop += (middleRow - row) * optionHeightPx
+          row = middleRow
+        }
+      }
+      setActiveRowAndIndex(row)
+      closestIndex = wrapIndex(row, items.length)
+    } else {
+      closestIndex = getClosestItemIndex(wheel, itemRefs.current)
+      if (items[closestIndex]?.isGroupHeader) {
+        closestIndex++
+      }
+      setActiveIndex(closestIndex)
+      row = closestIndex
+    }
+
+    const option = items[closestIndex]
+    if (option) {
+      callbacks?.onActiveChange?.(toOptionIndex(closestIndex), option)
+    }
+
+    if (isSettleCommit && userScrolledRef.current) {
+      userScrolledRef.current = false
+      commitSettledRow(row)
+    }
+  }, [items, toOptionIndex, callbacks, isVirtualized, isLooping, optionHeightPx, spacerHeight, rowCount, middleCopyStart, setActiveRowAndIndex, isSettleCommit, commitSettledRow])
+
+  // 3D cylinder appearance, updated from the scroll position every frame
+  const isCylinder = isCylinderAppearance(theme)
+
+  const updateCylinder = useCallback(() => {
+    const wheel = wheelRef.current
+    if (!wheel || !isCylinder) return
+    applyCylinderTransforms(wheel, itemRefs.current, theme.cylinder)
+  }, [isCylinder, theme.cylinder])
+
+  const scheduleCylinderUpdate = useCallback(() => {
+    if (!isCylinder || cylinderFrameRef.current !== null) return
+    cylinderFrameRef.current = requestAnimationFrame(() => {
+      cylinderFrameRef.current = null
+      updateCylinder()
+    })
+  }, [isCylinder, updateCylinder])
+
+  // Pinned group header - shows the group of the topmost visible row until
+  // the next group's header pushes it out, like a sticky section header
+  const hasGroupHeaders = headerPositions.length > 0
+
+  const updateStickyHeader = useCallback(() => {
+    const wheel = wheelRef.current
+    const header = stickyHeaderRef.current
+    if (!wheel || !header || !hasGroupHeaders) return
+    const scrollTop = wheel.scrollTop
+
+    // Topmost row crossing the top edge of the wheel (-1 while the top spacer shows)
+    const getRowTop = (row: number): number | null => {
+      if (isVirtualized && optionHeightPx !== null) return spacerHeight + row * optionHeightPx
+      return itemRefs.current[row]?.offsetTop ?? null
+    }
+    let topRow: number
+    if (isVirtualized && optionHeightPx !== null) {
+      topRow = Math.floor((scrollTop - spacerHeight) / optionHeightPx)
+    } else {
+      topRow = itemRefs.current.findIndex(item => item !== null && item.offsetTop + item.offsetHeight > scrollTop)
+      if ((getRowTop(topRow) ?? Infinity) > scrollTop) topRow = -1
+    }
+
+    const topItem = topRow >= 0 && topRow < rowCount ? items[wrapIndex(topRow, items.length)] : undefined
+    setStickyGroup((topItem?.isGroupHeader ? topItem.label : topItem?.group) ?? null)
+
+    const nextRow = topRow + 1
+    const nextTop = nextRow < rowCount && items[wrapIndex(nextRow, items.length)]?.isGroupHeader
+      ? getRowTop(nextRow)
+      : null
+    const offset = nextTop === null ? 0 : Math.min(0, nextTop - scrollTop - header.offsetHeight)
+    header.style.transform = offset ? `translateY(${offset}px)` : ''
+  }, [hasGroupHeaders, isVirtualized, optionHeightPx, spacerHeight, rowCount, items])
+
+  // Re-project after every render so newly mounted items are transformed too
+  useLayoutEffect(() => {
+    if (isOpen) {
+      updateCylinder()
+      updateStickyHeader()
+    }
+  })
+
+  // Wheel, touch and pointer input mark the next settle as user-initiated,
+  // so programmatic centering never commits a value, and take over from a
+  // momentum glide
+  const markUserScroll = useCallback(() => {
+    userScrolledRef.current = true
+    stopMomentum()
+  }, [stopMomentum])
+
+  // Row the wheel comes to rest on after scrolling `offset` px further -
+  // group headers hand over to the row below, as in calculateActiveFromScroll
+  const getRowAtOffset = useCallback((offset: number): number | null => {
+    const wheel = wheelRef.current
+    if (!wheel || items.length === 0) return null
+    let row: number
+    if (isVirtualized && optionHeightPx !== null) {
+      const center = wheel.scrollTop + offset + wheel.clientHeight / 2
+      row = Math.min(
+        Math.max(0, Math.round((center - spacerHeight - optionHeightPx / 2) / optionHeightPx)),
+        rowCount - 1
+      )
+    } else {
+      row = getClosestItemIndex(wheel, itemRefs.current, offset)
+    }
+    if (items[wrapIndex(row, items.length)]?.isGroupHeader && row + 1 < rowCount) {
+      row++
+    }
+    return row
+  }, [items, isVirtualized, optionHeightPx, spacerHeight, rowCount])
+
+  // Tick as options cross the center band during scroll - for onTick and
+  // the feedback providers, without waiting for the scroll to settle
+  const hasTickListeners = callbacks?.onTick !== undefined || behavior.feedback.length > 0
+
+  const updateTick = useCallback(() => {
+    if (!hasTickListeners) return
+    const row = getRowAtOffset(0)
+    if (row === null || row === tickRowRef.current) return
+    tickRowRef.current = row
+    const index = wrapIndex(row, items.length)
+    const option = items[index]
+    if (!option || option.isGroupHeader) return
+    callbacks?.onTick?.(toOptionIndex(index), option)
+    behavior.feedback.forEach(feedback => feedback.tick())
+  }, [hasTickListeners, getRowAtOffset, items, toOptionIndex, callbacks, behavior.feedback])
+
+  // Handle scroll with debounce
+  const handleScroll = useCallback(() => {
+    updateVisibleRange()
+    scheduleCylinderUpdate()
+    updateStickyHeader()
+    loadMoreIfNeeded()
+
+    // Ignore the scroll event caused by a loop recenter - the same option is
+    // still centered, one copy over
+    if (isRecenteringRef.current) {
+      isRecenteringRef.current = false
+      tickRowRef.current = getRowAtOffset(0)
+      return
+    }
+
+    updateTick()
+    isScrollingRef.current = true
+
+    if (scrollTimeoutRef.current) {
+      clearTimeout(scrollTimeoutRef.current)
+    }
+
+    scrollTimeoutRef.current = setTimeout(() => {
+      isScrollingRef.current = false
+      // A wheel held still mid-drag has not settled yet
+      if (wheelDragRef.current?.isDragging) return
+      calculateActiveFromScroll()
+    }, behavior.scrollDebounceMs)
+  }, [calculateActiveFromScroll, updateVisibleRange, scheduleCylinderUpdate, updateStickyHeader, loadMoreIfNeeded, getRowAtOffset, updateTick, behavior.scrollDebounceMs])
+
+  // Glide to a row with an exponential ease-out, the curve of decaying momentum
+  const glideToRow = useCallback((row: number) => {
+    const wheel = wheelRef.current
+    const target = getScrollTopForIndex(row)
+    if (!wheel || target === null) return
+
+    const startTop = wheel.scrollTop
+    let startTime: number | null = null
+    const step = (time: number) => {
+      startTime ??= time
+      const remaining = (target - startTop) * Math.exp(-(time - startTime) / MOMENTUM_TIME_CONSTANT)
+      if (Math.abs(remaining) >= 0.5) {
+        wheel.scrollTop = target - remaining
+        momentumFrameRef.current = requestAnimationFrame(step)
+        return
+      }
+      momentumFrameRef.current = 0
+      setIsDragging(false)
+      if (Math.round(wheel.scrollTop) === Math.round(target)) {
+        // No scroll event will follow to settle the wheel
+        calculateActiveFromScroll()
+      } else {
+        wheel.scrollTop = target
+      }
+    }
+    momentumFrameRef.current = requestAnimationFrame(step)
+  }, [getScrollTopForIndex, calculateActiveFromScroll])
+
+  // Drag the wheel with a mouse or pen - touch keeps native scrolling
+  const handleWheelPointerDown = useCallback((e: PointerEvent<HTMLDivElement>) => {
+    markUserScroll()
+    suppressClickRef.current = false
+    if (!behavior.dragToScroll || e.pointerType === 'touch' || e.button !== 0) return
+    wheelDragRef.current = {
+      pointerId: e.pointerId,
+      startY: e.clientY,
+      lastY: e.clientY,
+      lastTime: e.timeStamp,
+      velocity: 0,
+      isDragging: false,
+    }
+  }, [markUserScroll, behavior.dragToScroll])
+
+  const handleWheelPointerMove = useCallback((e: PointerEvent<HTMLDivElement>) => {
+    const drag = wheelDragRef.current
+    if (!drag || drag.pointerId !== e.pointerId) return
+    if (!drag.isDragging) {
+      if (Math.abs(e.clientY - drag.startY) < DRAG_THRESHOLD) return
+      // Capture only once the press becomes a drag, so a plain click still
+      // reaches the option
+      drag.isDragging = true
+      e.currentTarget.setPointerCapture(e.pointerId)
+      setIsDragging(true)
+    }
+    const elapsed = e.timeStamp - drag.lastTime
+    if (elapsed > 0) {
+      // Smoothed velocity in px/ms for the release
+      drag.velocity = 0.8 * ((e.clientY - drag.lastY) / elapsed) + 0.2 * drag.velocity
+    }
+    // Relative steps, so a loop recenter during the drag is kept
+    e.currentTarget.scrollTop -= e.clientY - drag.lastY
+    drag.lastY = e.clientY
+    drag.lastTime = e.timeStamp
+  }, [])
+
+  const handleWheelPointerUp = useCallback((e: PointerEvent<HTMLDivElement>) => {
+    const drag = wheelDragRef.current
+    if (!drag || drag.pointerId !== e.pointerId) return
+    wheelDragRef.current = null
+    if (!drag.isDragging) return
+
+    // The click that ends a drag must not select the option under the pointer
+    suppressClickRef.current = true
+    // A pointer held still before release has no momentum left
+    const velocity = e.timeStamp - drag.lastTime > 100 ? 0 : drag.velocity
+    const row = getRowAtOffset(-velocity * MOMENTUM_TIME_CONSTANT)
+    if (row === null) {
+      stopMomentum()
+      return
+    }
+    glideToRow(row)
+  }, [getRowAtOffset, glideToRow, stopMomentum])
+
+  // Stop a glide when the picker closes
+  useEffect(() => {
+    if (!isOpen) return
+    return () => stopMomentum()
+  }, [isOpen, stopMomentum])
+
+  // Step to the next enabled option in a direction, wrapping around (loop mode)
+  const stepLoopRow = useCallback((direction: 1 | -1) => {
+    for (let step = 1; step <= items.length; step++) {
+      const row = activeRowRef.current + direction * step
+      if (row < 0 || row >= rowCount) return
+      if (!items[wrapIndex(row, items.length)]?.disabled) {
+        setActiveRowAndIndex(row)
+        scrollWheelToIndex(row)
+        return
+      }
+    }
+  }, [items, rowCount, setActiveRowAndIndex, scrollWheelToIndex])
+
+  // Make an option active and scroll it into the center band
+  const moveActiveToIndex = useCallback((index: number) => {
+    if (isLooping) {
+      const row = getNearestRow(index)
+      setActiveRowAndIndex(row)
+      scrollWheelToIndex(row)
+      return
+    }
+    setActiveIndex(index)
+    scrollWheelToIndex(index)
+  }, [isLooping, getNearestRow, setActiveRowAndIndex, scrollWheelToIndex])
+
+  // Step to the next enabled option in a direction (wrapping in loop mode)
+  const stepActive = useCallback((direction: 1 | -1) => {
+    if (isLooping) {
+      stepLoopRow(direction)
+      return
+    }
+    setActiveIndex(prev => {
+      let newIndex = prev + direction
+      // Skip disabled options
+      while (newIndex >= 0 && newIndex < items.length && items[newIndex]?.disabled) {
+        newIndex += direction
+      }
+      if (newIndex < 0 || newIndex >= items.length) return prev
+      scrollWheelToIndex(newIndex)
+      return newIndex
+    })
+  }, [isLooping, stepLoopRow, items, scrollWheelToIndex])
+
+  // Move by a page - the number of options visible in the wheel - to the
+  // nearest enabled option, looking past the target first
+  const pageActive = useCallback((direction: 1 | -1) => {
+    const wheel = wheelRef.current
+    const rowHeight = optionHeightPx ?? itemRefs.current.find(item => item !== null)?.offsetHeight
+    if (!wheel || !rowHeight || items.length === 0) return
+
+    const pageSize = Math.max(1, Math.floor(wheel.clientHeight / rowHeight))
+    const current = isLooping ? activeRowRef.current : activeIndex
+    const lastRow = (isLooping ? rowCount : items.length) - 1
+    const isEnabledRow = (r: number) => !items[wrapIndex(r, items.length)]?.disabled
+    const target = Math.min(Math.max(current + direction * pageSize, 0), lastRow)
+
+    let row = target
+    while (row >= 0 && row <= lastRow && !isEnabledRow(row)) row += direction
+    if (row < 0 || row > lastRow) {
+      row = target
+      while (row !== current && !isEnabledRow(row)) row -= direction
+    }
+    if (row === current) return
+
+    if (isLooping) {
+      setActiveRowAndIndex(row)
+    } else {
+      setActiveIndex(row)
+    }
+    scrollWheelToIndex(row)
+  }, [optionHeightPx, items, isLooping, activeIndex, rowCount, setActiveRowAndIndex, scrollWheelToIndex])
+
+  // Collect type-ahead characters and find the matching option.
+  // Returns the matched index, -1 for no match, or null if the key is not type-ahead input.
+  const handleTypeAhead = useCallback((
+    e: KeyboardEvent,
+    list: { label: string; disabled?: boolean }[],
+    currentIndex: number
+  ): number | null => {
+    if (!behavior.typeAhead) return null
+    if (e.key.length !== 1 || e.ctrlKey || e.metaKey || e.altKey) return null
+    // Space commits unless it continues a search in progress
+    if (e.key === ' ' && typeAheadRef.current === '') return null
+
+    e.preventDefault()
+    typeAheadRef.current += e.key
+    if (typeAheadTimeoutRef.current) {
+      clearTimeout(typeAheadTimeoutRef.current)
+    }
+    typeAheadTimeoutRef.current = setTimeout(() => {
+      typeAheadRef.current = ''
+    }, behavior.typeAheadTimeoutMs)
+
+    return findTypeAheadMatch(list, typeAheadRef.current, currentIndex)
+  }, [behavior.typeAhead, behavior.typeAheadTimeoutMs])
+
+  // Keyboard navigation - keys are looked up in the keymap, then type-ahead
+  const handlePickerKeyDown = useCallback((e: KeyboardEvent) => {
+    if (!behavior.keyboardNavigation || disabled) return
+
+    callbacks?.onKeyDown?.(e)
+
+    // Space continues a type-ahead search in progress
+    const action = e.key === ' ' && typeAheadRef.current !== ''
+      ? null
+      : getKeyAction(e, behavior.keymap)
+
+    if (action === null) {
+      const typeAheadMatch = handleTypeAhead(e, items, activeIndex)
+      if (typeAheadMatch !== null && typeAheadMatch !== -1) {
+        userScrolledRef.current = true
+        moveActiveToIndex(typeAheadMatch)
+      }
+      return
+    }
+
+    // Keyboard navigation counts as a user scroll for commit-on-settle
+    if (NAVIGATION_ACTIONS.has(action)) {
+      userScrolledRef.current = true
+    }
+
+    switch (action) {
+      case 'cancel':
+        if (behavior.closeOnEscape && !isInline) {
+          e.preventDefault()
+          closePicker('escape')
+        }
+        break
+      case 'previous':
+        e.preventDefault()
+        stepActive(-1)
+        break
+      case 'next':
+        e.preventDefault()
+        stepActive(1)
+        break
+      case 'pageUp':
+        e.preventDefault()
+        pageActive(-1)
+        break
+      case 'pageDown':
+        e.preventDefault()
+        pageActive(1)
+        break
+      case 'commit':
+        e.preventDefault()
+        const option = items[activeIndex]
+        if (option && !option.disabled) {
+          commitSelection(option.value)
+        }
+        break
+      case 'first':
+        e.preventDefault()
+        const firstEnabled = items.findIndex(o => !o.disabled)
+        if (firstEnabled !== -1) {
+          moveActiveToIndex(firstEnabled)
+        }
+        break
+      case 'last':
+        e.preventDefault()
+        const lastEnabled = items.findLastIndex(o => !o.disabled)
+        if (lastEnabled !== -1) {
+          moveActiveToIndex(lastEnabled)
+        }
+        break
+    }
+  }, [behavior.keyboardNavigation, disabled, behavior.keymap, behavior.closeOnEscape, isInline, items, activeIndex, closePicker, commitSelection, stepActive, pageActive, moveActiveToIndex, handleTypeAhead, callbacks])
+
+  // Keyboard handling on the closed trigger, like a focused native select:
+  // Alt+Arrow and F4 open the picker, while the next, previous, first and
+  // last keys and type-ahead change the value directly (single selection with local options)
+  const handleTriggerKeyDown = useCallback((e: KeyboardEvent) => {
+    if (!behavior.keyboardNavigation || isOpen || disabled) return
+
+    if (e.key === 'F4' || (e.altKey && (e.key === 'ArrowDown' || e.key === 'ArrowUp'))) {
+      e.preventDefault()
+      openPicker('trigger')
+      return
+    }
+    // Async options are only known while the picker is open - the loaded
+    // page may be empty or left over from a search
+    if (isMultiple || isAsync) return
+
+    // Next enabled option from an index in a direction (-1 if none)
+    const findEnabled = (from: number, direction: 1 | -1) => {
+      for (let index = from; index >= 0 && index < options.length; index += direction) {
+        if (!options[index]?.disabled) return index
+      }
+      return -1
+    }
+
+    const currentIndex = findOptionIndex(options, value)
+    let targetIndex: number | null
+    switch (getKeyAction(e, behavior.keymap)) {
+      case 'previous':
+        // Nothing selected sits before the first option
+        targetIndex = currentIndex === -1 ? -1 : findEnabled(currentIndex - 1, -1)
+        break
+      case 'next':
+        targetIndex = findEnabled(currentIndex + 1, 1)
+        break
+      case 'first':
+        targetIndex = findEnabled(0, 1)
+        break
+      case 'last':
+        targetIndex = findEnabled(options.length - 1, -1)
+        break
+      default:
+        // Searches `options` - `items` would add the group header rows
+        targetIndex = handleTypeAhead(e, options, currentIndex)
+        if (targetIndex === null) return
+    }
+    e.preventDefault()
+
+    const option = targetIndex === -1 ? undefined : options[targetIndex]
+    if (option && option.value !== value) {
+      selectValue(option.value)
+    }
+  }, [behavior.keyboardNavigation, behavior.keymap, isOpen, disabled, openPicker, isMultiple, isAsync, options, value, handleTypeAhead, selectValue])
+
+  // Handle item click
+  const handleItemClick = useCallback((index: number) => (e: MouseEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false
+      return
+    }
+    if (scrollTimeoutRef.current) {
+      clearTimeout(scrollTimeoutRef.current)
+      scrollTimeoutRef.current = null
+    }
+    const option = items[index]
+    if (option && !option.disabled) {
+      commitSelection(option.value)
+    }
+  }, [items, commitSelection])
+
+  // One option per mouse wheel notch. The listener is not passive so the
+  // native scroll can be prevented.
+  useEffect(() => {
+    const wheel = wheelRef.current
+    if (!isOpen || !wheel || behavior.wheelStep !== 'option') return
+
+    let accumulated = 0
+    let lastTime = 0
+    const handleWheel = (e: WheelEvent) => {
+      if (e.ctrlKey || Math.abs(e.deltaX) > Math.abs(e.deltaY)) return
+      e.preventDefault()
+      // Trackpads send many small deltas - sum them up to a notch, starting
+      // over after a pause. Line and page deltas are a notch each.
+      if (e.timeStamp - lastTime > 200) accumulated = 0
+      lastTime = e.timeStamp
+      accumulated += e.deltaMode === WheelEvent.DOM_DELTA_PIXEL ? e.deltaY : e.deltaY * WHEEL_NOTCH_DELTA
+      if (Math.abs(accumulated) < WHEEL_NOTCH_DELTA) return
+      const direction = accumulated > 0 ? 1 : -1
+      accumulated = 0
+      stepActive(direction)
+    }
+
+    wheel.addEventListener('wheel', handleWheel, { passive: false })
+    return () => wheel.removeEventListener('wheel', handleWheel)
+  }, [isOpen, isSheet, behavior.wheelStep, stepActive])
+
+  // Search input keys - navigation keys drive the wheel, everything else edits the query
+  const handleSearchKeyDown = useCallback((e: KeyboardEvent<HTMLInputElement>) => {
+    const action = getKeyAction(e, behavior.keymap)
+    if (action === 'cancel' && query) {
+      // First Escape clears the query, the next one closes
+      e.preventDefault()
+      changeQuery('')
+      return
+    }
+    // Characters are typed into the query, and Home / End move the caret
+    const isCharacter = e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey
+    if (action && action !== 'first' && action !== 'last' && !isCharacter) {
+      handlePickerKeyDown(e)
+    }
+  }, [behavior.keymap, query, changeQuery, handlePickerKeyDown])
+
+  // Handle backdrop click
+  const handleBackdropClick = useCallback((e: MouseEvent) => {
+    if (behavior.closeOnOutsideClick && e.target === e.currentTarget) {
+      closePicker('backdrop')
+    }
+  }, [behavior.closeOnOutsideClick, closePicker])
+
+  // Bottom sheet Done - commits the centered option (single mode) and closes
+  const handleSheetDone = useCallback(() => {
+    const option = items[activeIndex]
+    if (!isMultiple && option && !option.disabled && option.value !== value) {
+      selectValue(option.value)
+    }
+    closePicker('select')
+  }, [items, activeIndex, isMultiple, value, selectValue, closePicker])
+
+  // Bottom sheet Cancel - reverts changes made while the sheet was open
+  const handleSheetCancel = useCallback(() => {
+    const initialValues = openValuesRef.current
+    const isChanged = initialValues.length !== selectedValues.length ||
+      initialValues.some((v, i) => v !== selectedValues[i])
+    if (isChanged) {
+      emitChange(initialValues)
+    }
+    closePicker('cancel')
+  }, [selectedValues, emitChange, closePicker])
+
+  // Drag the sheet header down to dismiss. The offset is applied to the DOM
+  // directly so dragging does not re-render the wheel.
+  const handleSheetPointerDown = useCallback((e: PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0 || (e.target as Element).closest('button')) return
+    e.currentTarget.setPointerCapture(e.pointerId)
+    sheetDragRef.current = { pointerId: e.pointerId, startY: e.clientY, startTime: e.timeStamp, offset: 0 }
+    setIsSheetDragging(true)
+  }, [])
+
+  const handleSheetPointerMove = useCallback((e: PointerEvent<HTMLDivElement>) => {
+    const drag = sheetDragRef.current
+    const sheet = pickerRef.current
+    if (!drag || drag.pointerId !== e.pointerId || !sheet) return
+    drag.offset = Math.max(0, e.clientY - drag.startY)
+    sheet.style.transform = drag.offset ? `translateY(${drag.offset}px)` : ''
+  }, [])
+
+  const handleSheetPointerUp = useCallback((e: PointerEvent<HTMLDivElement>) => {
+    const drag = sheetDragRef.current
+    const sheet = pickerRef.current
+    if (!drag || drag.pointerId !== e.pointerId || !sheet) return
+    sheetDragRef.current = null
+    setIsSheetDragging(false)
+
+    // Dismiss past a third of the sheet or on a quick downward flick
+    const velocity = drag.offset / Math.max(1, e.timeStamp - drag.startTime)
+    if (e.type === 'pointerup' && (drag.offset > sheet.offsetHeight / 3 || velocity > SHEET_DISMISS_VELOCITY)) {
+      // Dismissed like a backdrop click - changes are kept, unlike Cancel
+      closePicker('backdrop')
+    } else {
+      sheet.style.transform = ''
+    }
+  }, [closePicker])
+
+  // Handle native select change
+  const handleNativeChange = useCallback((e: ChangeEvent<HTMLSelectElement>) => {
+    emitChange(Array.from(e.target.selectedOptions, option => option.value as T))
+  }, [emitChange])
+
+  // Scroll to specific option index
+  const scrollToIndex = useCallback((index: number) => {
+    const position = itemIndices ? itemIndices.indexOf(index) : index
+    if (position === -1) return
+    scrollWheelToIndex(getNearestRow(position))
+  }, [itemIndices, scrollWheelToIndex, getNearestRow])
+
+
+  // Generate CSS custom properties
+  const cssVariables = useMemo(
+    () => buildCssVariables(theme, sizing, spacerHeight, zIndex),
+    [theme, sizing, spacerHeight, zIndex]
+  )
+
+  // Keep the picker on-screen next to the trigger (the root with a custom trigger)
+  const getAnchor = useCallback(() => triggerRef.current ?? rootRef.current, [])
+  const pickerPosition = usePickerPosition(
+    isOpen && !isInline && !isSheet,
+    getAnchor,
+    pickerRef,
+    behavior.placement,
+    behavior.collisionPadding,
+    searchRef
+  )
+
+  // Live region announcements, at most one every ANNOUNCE_THROTTLE_MS - the
+  // latest message wins, so quick keyboard navigation is not read out step by step
+  const announce = useCallback((message: string) => {
+    pendingAnnouncementRef.current = message
+    if (announceTimeoutRef.current) return
+    const wait = Math.max(0, lastAnnounceTimeRef.current + ANNOUNCE_THROTTLE_MS - Date.now())
+    announceTimeoutRef.current = setTimeout(() => {
+      announceTimeoutRef.current = null
+      lastAnnounceTimeRef.current = Date.now()
+      setAnnouncement(pendingAnnouncementRef.current)
+    }, wait)
+  }, [])
+
+  // Announce the option in the center band when it changes. The option shown
+  // on open is not announced - the dialog and its active descendant are.
+  useEffect(() => {
+    if (!isOpen) {
+      if (announceTimeoutRef.current) {
+        clearTimeout(announceTimeoutRef.current)
+        announceTimeoutRef.current = null
+      }
+      announcedValueRef.current = null
+      setAnnouncement('')
+      return
+    }
+    const option = items[activeIndex]
+    if (!option || option.isGroupHeader || option.value === announcedValueRef.current) return
+    const isFirst = announcedValueRef.current === null
+    announcedValueRef.current = option.value
+    if (isFirst) return
+
+    const { position } = getPositionInSet(activeIndex)
+    const total = items.length - headerPositions.length
+    announce(a11y?.formatAnnouncement
+      ? a11y.formatAnnouncement(option, position, total)
+      : `${option.label}, ${position} of ${total}${option.disabled ? ', disabled' : ''}`)
+  }, [isOpen, activeIndex, items])
+
+  // Trap focus in the open picker and return it to the trigger (or the
+  // element focused before opening, with a custom trigger) on close
+  useModalDialog(isOpen && !isInline, pickerRef, behavior.focusTriggerOnClose ? triggerRef : null)
+
+  // Indices mounted in virtualized mode - the visible window plus the active option
+  const activeRenderRow = isLooping ? activeRow : activeIndex
+  const virtualIndices = useMemo(() => {
+    if (!isVirtualized) return []
+    const [start, end] = visibleRange
+    const indices: number[] = []
+    for (let row = start; row <= end && row < rowCount; row++) {
+      indices.push(row)
+    }
+    if (activeRenderRow < rowCount && (activeRenderRow < start || activeRenderRow > end)) {
+      indices.push(activeRenderRow)
+    }
+    return indices
+  }, [isVirtualized, visibleRange, activeRenderRow, rowCount])
+  // Native select options - in async mode selected values that are not loaded
+  // are kept, so they are still submitted. Lazy lists only list the selection.
+  const nativeOptions = useMemo(() => {
+    if (isLazyOptions(options)) return selectedOptions
+    if (!isAsync) return options
+    const missing = selectedValues
+      .filter(v => v !== '' && !options.some(o => o.value === v))
+      .map(v => lookupOption(v) ?? { value: v, label: v })
+    return [...options, ...missing]
+  }, [isAsync, options, selectedOptions, selectedValues, lookupOption])
+
+  const listboxId = `ws-listbox-${baseId}`
+  const activeOptionId = items.length > 0
+    ? `ws-option-${baseId}-${activeRenderRow}`
+    : undefined
+
+  // Actions
+  const open = useCallback(
+    (reason: WheelSelectOpenChangeReason = 'programmatic') => openPicker(reason),
+    [openPicker]
+  )
+  const close = useCallback(
+    (reason: WheelSelectOpenChangeReason = 'programmatic') => closePicker(reason),
+    [closePicker]
+  )
+  const toggle = useCallback(
+    () => (isOpen ? closePicker('programmatic') : openPicker('programmatic')),
+    [isOpen, openPicker, closePicker]
+  )
+  const focus = useCallback(() => (isInline ? wheelRef : triggerRef).current?.focus(), [isInline])
+
+  // The browser reports a failed constraint (on submit or reportValidity())
+  // at the hidden native select - show it on the visible field instead, and
+  // focus the field when it is the first invalid control of its form
+  const handleInvalid = useCallback((e: SyntheticEvent<HTMLSelectElement>) => {
+    e.preventDefault()
+    const select = e.currentTarget
+    setValidationMessage(select.validationMessage)
+    setIsValidationShown(true)
+    const firstInvalid = select.form && Array.from(select.form.elements).find(
+      element => (element as HTMLSelectElement).willValidate && !(element as HTMLSelectElement).validity.valid
+    )
+    if (!firstInvalid || firstInvalid === select) {
+      focus()
+    }
+  }, [focus])
+
+  // Leaving the field validates it - moving focus into the picker does not
+  const handleBlur = useCallback((e: FocusEvent) => {
+    if ((isOpen && !isInline) || rootRef.current?.contains(e.relatedTarget as Node | null)) return
+    updateValidity()
+    setIsValidationShown(true)
+  }, [isOpen, isInline, updateValidity])
+
+  const reportValidity = useCallback(() => {
+    const select = selectRef.current
+    if (!select) return true
+    updateValidity()
+    const isValid = select.reportValidity()
+    if (!isValid) focus()
+    return isValid
+  }, [updateValidity, focus])
+
+  const setCustomValidity = useCallback((message: string) => {
+    customValidityRef.current = message
+    updateValidity()
+  }, [updateValidity])
+
+  const isInvalid = invalid ?? (isValidationShown && validationMessage !== null)
+  const shownErrorMessage = isInvalid
+    ? errorMessage ?? (isValidationShown ? validationMessage : null)
+    : null
+  const hasErrorMessage = shownErrorMessage !== null && shownErrorMessage !== undefined && shownErrorMessage !== ''
+  const errorMessageId = `ws-error-${baseId}`
+  const describedBy = [a11y?.describedBy, hasErrorMessage ? errorMessageId : undefined]
+    .filter(Boolean).join(' ') || undefined
+  const getNativeSelect = useCallback(() => selectRef.current, [])
+
+  // Prop getters - consumer props override ours, and consumer handlers run
+  // first and can skip ours by preventing the default
+  const getRootProps: UseWheelSelectReturn<T>['getRootProps'] = extra =>
+    mergeProps({ ref: rootRef }, extra)
+
+  const getTriggerProps: UseWheelSelectReturn<T>['getTriggerProps'] = extra => mergeProps({
+    ref: triggerRef,
+    type: 'button',
+    id,
+    onClick: () => openPicker('trigger'),
+    onKeyDown: handleTriggerKeyDown,
+    disabled,
+    'aria-haspopup': 'listbox',
+    'aria-expanded': isOpen,
+    'aria-controls': isOpen ? listboxId : undefined,
+    'aria-label': a11y?.triggerLabel,
+    'aria-describedby': describedBy,
+    'aria-invalid': isInvalid || undefined,
+    onBlur: handleBlur,
+    // The popover covers the trigger with its center band
+    style: { visibility: isOpen && !isSheet && behavior.placement === 'overlay-trigger' ? 'hidden' : 'visible' },
+  }, extra)
+
+  const getNativeSelectProps: UseWheelSelectReturn<T>['getNativeSelectProps'] = extra => mergeProps({
+    ref: selectRef,
+    name,
+    autoComplete,
+    id: id ? `${id}-native` : undefined,
+    multiple: isMultiple,
+    value: isMultiple ? selectedValues : value,
+    onChange: handleNativeChange,
+    onInvalid: handleInvalid,
+    tabIndex: -1,
+    'aria-hidden': true,
+    required,
+    disabled,
+  }, extra)
+
+  const getBackdropProps: UseWheelSelectReturn<T>['getBackdropProps'] = extra => mergeProps({
+    role: 'presentation',
+    onClick: handleBackdropClick,
+  }, extra)
+
+  const getPickerProps: UseWheelSelectReturn<T>['getPickerProps'] = extra => mergeProps(isInline ? {} : {
+    ref: pickerRef,
+    role: 'dialog',
+    'aria-modal': true,
+    'aria-label': a11y?.pickerLabel ?? 'Select an option',
+    style: isSheet ? undefined : pickerPosition ?? { visibility: 'hidden' },
+    'data-dragging': isSheetDragging || undefined,
+  }, extra)
+
+  const getSheetHeaderProps: UseWheelSelectReturn<T>['getSheetHeaderProps'] = extra => mergeProps({
+    onPointerDown: handleSheetPointerDown,
+    onPointerMove: handleSheetPointerMove,
+    onPointerUp: handleSheetPointerUp,
+    onPointerCancel: handleSheetPointerUp,
+  }, extra)
+
+  const getSearchProps: UseWheelSelectReturn<T>['getSearchProps'] = extra => mergeProps({
+    ref: searchRef,
+    type: 'text',
+    value: query,
+    onChange: (e: ChangeEvent<HTMLInputElement>) => changeQuery(e.target.value),
+    onKeyDown: handleSearchKeyDown,
+    placeholder: searchPlaceholder,
+    role: 'combobox',
+    'aria-label': a11y?.searchLabel ?? 'Search options',
+    'aria-expanded': true,
+    'aria-controls': listboxId,
+    'aria-autocomplete': 'list',
+    'aria-activedescendant': activeOptionId,
+    autoComplete: 'off',
+    spellCheck: false,
+    disabled,
+  }, extra)
+
+  const getStickyHeaderProps: UseWheelSelectReturn<T>['getStickyHeaderProps'] = extra => mergeProps({
+    ref: stickyHeaderRef,
+    'aria-hidden': true,
+    hidden: stickyGroup === null,
+  }, extra)
+
+  const getListboxProps: UseWheelSelectReturn<T>['getListboxProps'] = extra => mergeProps({
+    ref: wheelRef,
+    id: listboxId,
+    role: 'listbox',
+    'aria-multiselectable': isMultiple || undefined,
+    'aria-label': isInline ? a11y?.pickerLabel ?? 'Select an option' : undefined,
+    'aria-disabled': disabled || undefined,
+    'aria-activedescendant': activeOptionId,
+    'aria-describedby': isInline ? describedBy : a11y?.describedBy,
+    'aria-invalid': (isInline && isInvalid) || undefined,
+    'aria-busy': loadStatus === 'loading' || undefined,
+    tabIndex: disabled ? -1 : 0,
+    'data-dragging': isDragging || undefined,
+    onKeyDown: handlePickerKeyDown,
+    onBlur: isInline ? handleBlur : undefined,
+    onScroll: handleScroll,
+    onWheel: markUserScroll,
+    onTouchStart: markUserScroll,
+    onPointerDown: handleWheelPointerDown,
+    onPointerMove: handleWheelPointerMove,
+    onPointerUp: handleWheelPointerUp,
+    onPointerCancel: handleWheelPointerUp,
+  }, extra)
+
+  const getLiveRegionProps: UseWheelSelectReturn<T>['getLiveRegionProps'] = extra => mergeProps({
+    role: 'status',
+    'aria-live': 'polite',
+    'aria-atomic': true,
+  }, extra)
+
+  const getErrorMessageProps: UseWheelSelectReturn<T>['getErrorMessageProps'] = extra => mergeProps({
+    id: errorMessageId,
+  }, extra)
+
+  const getVirtualListProps: UseWheelSelectReturn<T>['getVirtualListProps'] = extra => mergeProps({
+    style: { height: rowCount * (optionHeightPx ?? 0) },
+  }, extra)
+
+  const getRow: UseWheelSelectReturn<T>['getRow'] = row => {
+    const index = isLooping ? wrapIndex(row, items.length) : row
+    const option = items[index]
+    if (!option) return null
+    const isGroupHeader = option.isGroupHeader === true
+    return {
+      key: isGroupHeader ? `group-${row}` : isLooping ? row : option.value,
+      option,
+      index: isGroupHeader ? -1 : toOptionIndex(index),
+      isGroupHeader,
+      isActive: !isGroupHeader && row === activeRenderRow,
+      isSelected: !isGroupHeader && selectedSet.has(option.value),
+    }
+  }
+
+  // A row of a repeated copy in loop mode
+  const getOptionProps: UseWheelSelectReturn<T>['getOptionProps'] = (row, extra) => {
+    const index = isLooping ? wrapIndex(row, items.length) : row
+    const option = items[index]
+    const ref = (el: HTMLDivElement | null) => { itemRefs.current[row] = el }
+    const style = isVirtualized && optionHeightPx !== null ? { top: row * optionHeightPx } : undefined
+
+    if (!option || option.isGroupHeader) {
+      return mergeProps({ ref, id: `ws-group-${baseId}-${row}`, role: 'presentation', style }, extra)
+    }
+
+    const { position, headerPosition } = getPositionInSet(index)
+
+    return mergeProps({
+      ref,
+      id: `ws-option-${baseId}-${row}`,
+      role: 'option',
+      'aria-selected': selectedSet.has(option.value),
+      'aria-disabled': option.disabled,
+      'aria-setsize': items.length - headerPositions.length,
+      'aria-posinset': position,
+      'aria-describedby': option.group !== undefined && headerPosition !== -1
+        ? `ws-group-${baseId}-${row - index + headerPosition}`
+        : undefined,
+      style,
+      onClick: handleItemClick(index),
+    }, extra)
+  }
+
+  return {
+    isOpen,
+    isInline,
+    isSheet,
+    isMultiple,
+    isCylinder,
+    isVirtualized,
+    isEmpty: items.length === 0,
+    value,
+    selectedValues,
+    selectedOptions,
+    displayLabel,
+    filterQuery,
+    loadStatus,
+    stickyGroup,
+    announcement,
+    hasGroupHeaders,
+    rows: isVirtualized ? virtualIndices : Array.from(items.keys()),
+    nativeOptions,
+    theme,
+    sizing,
+    behavior,
+    cssVariables,
+    isDragging,
+    isSheetDragging,
+    isInvalid,
+    errorMessage: hasErrorMessage ? shownErrorMessage : null,
+    open,
+    close,
+    toggle,
+    focus,
+    scrollToIndex,
+    retryLoad,
+    confirm: handleSheetDone,
+    cancel: handleSheetCancel,
+    getNativeSelect,
+    reportValidity,
+    setCustomValidity,
+    getRootProps,
+    getTriggerProps,
+    getNativeSelectProps,
+    getBackdropProps,
+    getPickerProps,
+    getSheetHeaderProps,
+    getSearchProps,
+    getStickyHeaderProps,
+    getListboxProps,
+    getLiveRegionProps,
+    getErrorMessageProps,
+    getVirtualListProps,
+    getRow,
+    getOptionProps,
+  }
+}